@@ -0,0 +1,298 @@
+#!/usr/bin/env node
+// Optional shared state server for the Safety Dashboard.
+//
+// Stores each dashboard storage key (one per profile and year, e.g. `safety-dashboard-2026`
+// or `safety-dashboard-plant2-2026`, plus the shared `safety-dashboard-accounts`) as a JSON
+// file on disk and serves it over a small REST API, so every TV showing the dashboard reads
+// and writes the same state.
+//
+//   GET  /api/health       -> { ok: true }
+//   GET  /api/state        -> [{ key, updatedAt }]
+//   GET  /api/state/:key   -> stored payload, 404 when the key was never written
+//   PUT  /api/state/:key   -> replaces the payload (JSON object body); the account list
+//                             needs an admin's X-Account-Id / X-Account-Pin once it exists,
+//                             and the next `version` (409 when another save came first)
+//   GET  /api/events       -> Server-Sent Events; `state` events ({ key, origin, updatedAt })
+//                             whenever a key is written, so open displays refresh live
+//   GET  /api/media/:id    -> uploaded image referenced from the state as `media:<id>`
+//   PUT  /api/media/:id    -> stores an image (raw body, Content-Type kept)
+//
+// Environment: PORT (default 8787), DATA_DIR (default ~/.safety-dashboard),
+// CORS_ORIGIN (default *).
+//
+// Apart from the account list there is no authentication: anyone who can reach the port
+// can read and overwrite the state and upload media, and the PIN hashes can be read.
+// Run it only on a trusted LAN, never exposed to the internet.
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { promisify } from 'node:util';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.DATA_DIR || path.join(os.homedir(), '.safety-dashboard'));
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+// Older dashboards still send posters and policy images inline as data URLs.
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const KEY_RE = /^safety-dashboard-[a-z0-9_-]+$/;
+const MEDIA_ID_RE = /^[a-z0-9-]+$/;
+const MEDIA_DIR = path.join(DATA_DIR, 'media');
+const HEARTBEAT_MS = 25000;
+const ACCOUNTS_KEY = 'safety-dashboard-accounts';
+const PIN_HASH_RE = /^pbkdf2\$(\d+)\$([0-9a-f]{64})$/;
+
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// Open event streams.
+const listeners = new Set();
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function fileFor(key) {
+  return path.join(DATA_DIR, `${key}.json`);
+}
+
+function send(res, status, body) {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Client-Id, X-Account-Id, X-Account-Pin',
+    'Cache-Control': 'no-store',
+  });
+  res.end(text);
+}
+
+function readBody(req) {
+  return readRawBody(req).then((buf) => buf.toString('utf8'));
+}
+
+function readRawBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    const onData = (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Discard the rest instead of destroying the socket, so the 413 still reaches
+        // the client; the connection is closed once it is sent.
+        req.off('data', onData);
+        req.resume();
+        chunks.length = 0;
+        reject(new HttpError(413, 'payload too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function listKeys() {
+  let names;
+  try {
+    names = await fs.readdir(DATA_DIR);
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+  const out = [];
+  for (const name of names) {
+    if (!name.endsWith('.json')) continue;
+    const key = name.slice(0, -5);
+    if (!KEY_RE.test(key)) continue;
+    const stat = await fs.stat(path.join(DATA_DIR, name));
+    out.push({ key, updatedAt: stat.mtime.toISOString() });
+  }
+  return out.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+async function readKey(key) {
+  try {
+    return await fs.readFile(fileFor(key), 'utf8');
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// Write to a temp file and rename so a crash never leaves a half-written year behind.
+async function writeAtomic(file, data) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
+
+function writeKey(key, text) {
+  return writeAtomic(fileFor(key), text);
+}
+
+// Same PIN hashes as src/app/components/dashboard/accounts.ts: PBKDF2-SHA256 with the
+// list's salt.
+async function pinMatches(store, account, pin) {
+  const m = PIN_HASH_RE.exec(String(account.pinHash || ''));
+  if (!m || typeof store.salt !== 'string' || !store.salt) return false;
+  const derived = await pbkdf2(pin, Buffer.from(store.salt, 'hex'), Number(m[1]), 32, 'sha256');
+  return crypto.timingSafeEqual(derived, Buffer.from(m[2], 'hex'));
+}
+
+// Once an account list is stored, only one of its admins may replace it, and only with
+// the version after the stored one, so two admins' edits can't silently overwrite each
+// other. The first list is taken from anyone, so a new server can be set up from a screen.
+async function checkAccountsWrite(req, next) {
+  const text = await readKey(ACCOUNTS_KEY);
+  if (text === null) return;
+  let store;
+  try {
+    store = JSON.parse(text);
+  } catch {
+    return;
+  }
+  const accounts = Array.isArray(store?.accounts) ? store.accounts : [];
+  if (!accounts.length) return;
+  const id = String(req.headers['x-account-id'] || '');
+  const pin = String(req.headers['x-account-pin'] || '');
+  const admin = accounts.find((a) => a && a.id === id && a.role === 'admin');
+  if (!admin || !(await pinMatches(store, admin, pin))) throw new HttpError(403, 'admin sign-in required');
+  const version = Number.isInteger(store.version) ? store.version : 0;
+  if (next.version !== version + 1) throw new HttpError(409, 'accounts changed since they were loaded');
+}
+
+// Media bytes are stored as `<id>` with the Content-Type beside them in `<id>.type`.
+async function readMedia(id) {
+  const file = path.join(MEDIA_DIR, id);
+  try {
+    const [data, type] = await Promise.all([fs.readFile(file), fs.readFile(`${file}.type`, 'utf8').catch(() => '')]);
+    return { data, type: type || 'application/octet-stream' };
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeMedia(id, data, type) {
+  const file = path.join(MEDIA_DIR, id);
+  await writeAtomic(file, data);
+  await writeAtomic(`${file}.type`, type);
+}
+
+async function handleMedia(req, res, id) {
+  if (!MEDIA_ID_RE.test(id)) throw new HttpError(400, 'invalid media id');
+
+  if (req.method === 'GET') {
+    const media = await readMedia(id);
+    if (!media) throw new HttpError(404, 'not stored');
+    res.writeHead(200, {
+      'Content-Type': media.type,
+      'Access-Control-Allow-Origin': CORS_ORIGIN,
+      // Ids are never reused, so the bytes behind one never change.
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+    return res.end(media.data);
+  }
+
+  if (req.method === 'PUT') {
+    const data = await readRawBody(req);
+    if (!data.length) throw new HttpError(400, 'empty body');
+    const type = String(req.headers['content-type'] || 'application/octet-stream').split(';')[0].trim();
+    await writeMedia(id, data, type);
+    return send(res, 200, { ok: true, id });
+  }
+
+  throw new HttpError(405, 'method not allowed');
+}
+
+function openEventStream(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+  });
+  res.write('retry: 3000\n\n');
+  listeners.add(res);
+  req.on('close', () => listeners.delete(res));
+}
+
+// `origin` is the writing client's id, so it can ignore its own echo.
+function broadcast(key, origin) {
+  const data = JSON.stringify({ key, origin, updatedAt: new Date().toISOString() });
+  for (const res of listeners) res.write(`event: state\ndata: ${data}\n\n`);
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (url.pathname === '/api/health' && req.method === 'GET') return send(res, 200, { ok: true });
+
+  if (url.pathname === '/api/state' && req.method === 'GET') return send(res, 200, await listKeys());
+
+  if (url.pathname === '/api/events' && req.method === 'GET') return openEventStream(req, res);
+
+  const media = /^\/api\/media\/([^/]+)$/.exec(url.pathname);
+  if (media) return handleMedia(req, res, decodeURIComponent(media[1]));
+
+  const m = /^\/api\/state\/([^/]+)$/.exec(url.pathname);
+  if (!m) throw new HttpError(404, 'not found');
+  const key = decodeURIComponent(m[1]);
+  if (!KEY_RE.test(key)) throw new HttpError(400, 'invalid key');
+
+  if (req.method === 'GET') {
+    const text = await readKey(key);
+    if (text === null) throw new HttpError(404, 'not stored');
+    res.writeHead(200, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Access-Control-Allow-Origin': CORS_ORIGIN,
+      'Cache-Control': 'no-store',
+    });
+    return res.end(text);
+  }
+
+  if (req.method === 'PUT') {
+    const text = await readBody(req);
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new HttpError(400, 'body is not JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new HttpError(400, 'body must be a JSON object');
+    if (key === ACCOUNTS_KEY) await checkAccountsWrite(req, parsed);
+    await writeKey(key, text);
+    broadcast(key, String(req.headers['x-client-id'] || ''));
+    return send(res, 200, { ok: true, key });
+  }
+
+  throw new HttpError(405, 'method not allowed');
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(err);
+    if (status === 413) res.setHeader('Connection', 'close');
+    if (!res.headersSent) send(res, status, { error: err.message || 'error' });
+    else res.end();
+  });
+});
+
+// Comment lines keep idle proxies from closing the event streams.
+setInterval(() => {
+  for (const res of listeners) res.write(': ping\n\n');
+}, HEARTBEAT_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`Safety Dashboard state server on http://localhost:${PORT} (data: ${DATA_DIR})`);
+});
@@ -3,18 +3,30 @@ import {
   Activity,
   AlertTriangle,
   Calendar as CalendarIcon,
-  CheckCircle2,
+  CalendarClock,
+  CalendarDays,
+  Cloud,
+  CloudOff,
+  Crop,
   Edit,
+  Factory,
   Flame,
+  HardDrive,
   Image as ImageIcon,
+  ListOrdered,
   Lock,
+  MonitorSmartphone,
   Plus,
+  Repeat,
   Save,
   Shield,
+  ShieldCheck,
+  Tags,
   Target,
   Trash2,
   Unlock,
   Upload,
+  Users,
 } from 'lucide-react';
 
 import nhkLogo from '@/assets/nhk-logo.png';
@@ -35,66 +47,180 @@ import {
 
 import { ScrollArea } from '@/app/components/ui/scroll-area';
 
-type DayStatus = 'safe' | 'near_miss' | 'accident' | null;
-interface DailyStatistic { day: number; status: DayStatus }
-interface MonthlyData { month: number; year: number; days: DailyStatistic[] }
-interface Announcement { id: string; text: string }
-interface SafetyMetric { id: string; label: string; value: string; unit?: string }
+import type { DayStatus, MonthlyData, TargetVars } from '@/app/components/dashboard/types';
+import { formatShortDate, fromISODate, toISODate } from '@/app/components/dashboard/dates';
+import { clamp, formatBytes, uid } from '@/app/components/dashboard/utils';
+import { applyAutoSafe, createYearData } from '@/app/components/dashboard/calendar';
+import {
+  CALENDAR_KEYS,
+  LOCAL_STORAGE_QUOTA_BYTES,
+  cacheRemoteYears,
+  isPlannedYear,
+  listStoredYears,
+  localStorageUsage,
+  readYearCalendar,
+  readYearShifts,
+  readYearStatuses,
+  plannedYearJson,
+  referencedMediaIds,
+  withPlannedCalendar,
+  yearStorageKey,
+} from '@/app/components/dashboard/storage';
+import {
+  isDataUrl,
+  mediaRefsIn,
+  mediaUsage,
+  pruneMedia,
+  putMedia,
+  storeDataUrl,
+  uploadPendingMedia,
+  type MediaUsage,
+} from '@/app/components/dashboard/media';
+import { ImageUploadDialog } from '@/app/components/dashboard/ImageUploadDialog';
+import { DEFAULT_FLIP_SECONDS, mapPageSources, singlePage, withFraming, type PageSet } from '@/app/components/dashboard/pages';
+import { frameAspect, type Framing } from '@/app/components/dashboard/framing';
+import { FramingDialog, type FramingTarget } from '@/app/components/dashboard/FramingDialog';
+import { isPdfFile } from '@/app/components/dashboard/pdf';
+import { PdfImportDialog } from '@/app/components/dashboard/PdfImportDialog';
+import { isVideoClip, isVideoFile, type PosterContent, type VideoClip } from '@/app/components/dashboard/video';
+import { createSlide, loadPlaylist, zoomSlide, type PosterSlide } from '@/app/components/dashboard/slides';
+import { PosterSlideshow } from '@/app/components/dashboard/PosterSlideshow';
+import { PosterPlaylistDialog } from '@/app/components/dashboard/PosterPlaylistDialog';
+import { isScheduled, useScheduleClock } from '@/app/components/dashboard/schedule';
+import { DEFAULT_ANNOUNCEMENTS, sanitizeAnnouncements, type Announcement } from '@/app/components/dashboard/announcements';
+import { AnnouncementDialog } from '@/app/components/dashboard/AnnouncementDialog';
+import {
+  DEFAULT_POLICY_LAYOUT,
+  createPolicyImage,
+  isPolicyLayout,
+  sanitizePolicyImages,
+  sanitizePolicyPageSeconds,
+  type PolicyImage,
+  type PolicyLayout,
+} from '@/app/components/dashboard/policy';
+import { PolicyBoard } from '@/app/components/dashboard/PolicyBoard';
+import { PolicyDialog } from '@/app/components/dashboard/PolicyDialog';
+import { ADMIN_IDLE_MS, useIdleTimeout } from '@/app/components/dashboard/admin';
+import {
+  ACCOUNTS_KEY,
+  adoptLegacyAdminPin,
+  can,
+  fetchRemoteAccounts,
+  parseAccounts,
+  pushRemoteAccounts,
+  readLocalAccounts,
+  roleLabel,
+  serializeAccounts,
+  writeLocalAccounts,
+  type Account,
+  type AccountCredential,
+  type AccountStore,
+  type Permission,
+} from '@/app/components/dashboard/accounts';
+import { SignInDialog } from '@/app/components/dashboard/SignInDialog';
+import { AccountsDialog } from '@/app/components/dashboard/AccountsDialog';
+import { VideoUploadDialog } from '@/app/components/dashboard/VideoUploadDialog';
+import { StateServerError, fetchRemoteState, pushRemoteState, stateServerUrl, type SyncState } from '@/app/components/dashboard/remote';
+import { LIVE_CLIENT_ID, announceLocalChange, subscribeLiveUpdates } from '@/app/components/dashboard/live';
+import { DEFAULT_PROFILE, profileFromUrl } from '@/app/components/dashboard/profiles';
+import { ProfileDialog } from '@/app/components/dashboard/ProfileDialog';
+import {
+  computeSafetyStreak,
+  findLongestStreak,
+  streakStep,
+  streakManHours,
+  type SafetyStreak,
+} from '@/app/components/dashboard/streak';
+import {
+  groupIncidentsByDate,
+  sanitizeIncidents,
+  type Incident,
+} from '@/app/components/dashboard/incidents';
+import { IncidentDialog } from '@/app/components/dashboard/IncidentDialog';
+import {
+  DEFAULT_AREAS,
+  PLANT_VIEW,
+  incidentsInView,
+  loadAreaData,
+  mapAreaData,
+  sanitizeAreas,
+  viewCalendar,
+  viewStoredCalendar,
+  withDayStatus,
+  type Area,
+  type AreaData,
+} from '@/app/components/dashboard/areas';
+import { AreaDialog } from '@/app/components/dashboard/AreaDialog';
+import {
+  DEFAULT_DAY_CLASSIFICATIONS,
+  classificationBadgeStyle,
+  classificationCellStyle,
+  classificationOf,
+  classificationsById,
+  sanitizeClassifications,
+  type DayClassification,
+} from '@/app/components/dashboard/classifications';
+import { ClassificationDialog } from '@/app/components/dashboard/ClassificationDialog';
+import { DayStatusIcon } from '@/app/components/dashboard/DayStatusIcon';
+import {
+  DEFAULT_HOLIDAYS,
+  dayOffNotes,
+  holidaysByDate,
+  isDayOff,
+  sanitizeHolidays,
+  type Holiday,
+} from '@/app/components/dashboard/holidays';
+import { HolidayDialog } from '@/app/components/dashboard/HolidayDialog';
+import {
+  DEFAULT_TARGET_AUTO,
+  DEFAULT_WORK_WEEK,
+  applyTargetAuto,
+  autoWorkingDays,
+  isWorkingDay,
+  isWorkingWeekday,
+  sanitizeWorkWeek,
+  workWeekFromDaysPerWeek,
+  type TargetAuto,
+  type WorkWeek,
+} from '@/app/components/dashboard/workdays';
+import {
+  DEFAULT_SHIFTS,
+  nextCutoffAt,
+  sanitizeShifts,
+  shiftClock,
+  type Shift,
+} from '@/app/components/dashboard/shifts';
+import {
+  DEFAULT_RATE_BASE,
+  METRIC_SOURCES,
+  RATE_BASES,
+  computeInjuryRates,
+  formatRate,
+  inferMetricSource,
+  isRateBase,
+  type MetricSource,
+  type RateBase,
+} from '@/app/components/dashboard/rates';
+
+interface SafetyMetric { id: string; label: string; value: string; unit?: string; source?: MetricSource }
 
 const MONTHS = ['January','February','March','April','May','June','July','August','September','October','November','December'];
 const DAY_HEADERS = ['Sun','Mon','Tue','Wed','Thu','Fri','Sat'];
 
-// Keys are ISO dates: YYYY-MM-DD. Values are holiday notes.
-const HOLIDAY_NOTES_2026: Record<string, string> = {
-  '2026-01-01': "NEW YEAR'S DAY",
-  '2026-01-02': "NEW YEAR'S DAY",
-  '2026-02-22': 'LABOUR UNION MEETING',
-  '2026-03-02': 'วันหยุดพิเศษ',
-  '2026-03-03': 'MAKHABUCHA DAY',
-  '2026-04-13': 'SONGKRAN DAY',
-  '2026-04-14': 'SONGKRAN DAY',
-  '2026-04-15': 'SONGKRAN DAY',
-  '2026-04-16': 'วันหยุดพิเศษ',
-  '2026-04-17': 'วันหยุดพิเศษ',
-  '2026-05-01': 'NATIONAL LABOUR DAY',
-  '2026-05-04': 'CORONATION DAY',
-  '2026-06-01': 'SUBSTITUTE VISAKHABUCHA DAY',
-  '2026-06-02': 'วันหยุดพิเศษ',
-  '2026-06-03': "H.M. THE QUEEN'S BIRTHDAY",
-  '2026-07-27': 'วันหยุดพิเศษ',
-  '2026-07-28': "H.M. THE KING'S BIRTHDAY",
-  '2026-07-29': 'A-SARNHA BUCHA DAY',
-  '2026-08-12': "MOTHER'S DAY",
-  '2026-10-12': 'วันหยุดพิเศษ',
-  '2026-10-13': 'RAMA IX MEMORIAL DAY',
-  '2026-10-23': 'KING CHULALONGKORN DAY',
-  '2026-12-07': 'SUBSTITUTE NATION DAY',
-  '2026-12-20': 'Party',
-  '2026-12-28': 'วันหยุดพิเศษ',
-  '2026-12-29': 'วันหยุดพิเศษ',
-  '2026-12-30': 'วันหยุดพิเศษ',
-  '2026-12-31': "NEW YEAR'S EVE",
-};
-
-const AUTO_SAFE_HOUR = 16;
-
-const DEFAULT_ANNOUNCEMENTS: Announcement[] = [
-  { id: '1', text: 'PPE Audit ประจำสัปดาห์ทุกวันพฤหัสบดี เวลา 09:00 น.' },
-  { id: '2', text: 'Emergency Drill ไตรมาสนี้กำหนดวันที่ 28 มีนาคม 2026' },
-];
+const AREA_ROTATE_SECONDS = 20;
 
 const DEFAULT_METRICS: SafetyMetric[] = [
   { id: 'm1', label: 'First Aid', value: '0', unit: 'case' },
   { id: 'm2', label: 'Non-Absent', value: '0', unit: 'case' },
   { id: 'm3', label: 'Absent', value: '0', unit: 'case' },
   { id: 'm4', label: 'Fire', value: '0', unit: 'case' },
-  { id: 'm5', label: 'IFR', value: '0', unit: '' },
-  { id: 'm6', label: 'ISR', value: '1.2', unit: '' },
+  { id: 'm5', label: 'IFR', value: '0', unit: '', source: 'ifr' },
+  { id: 'm6', label: 'ISR', value: '0', unit: '', source: 'isr' },
 ];
 
-const DEFAULT_POSTER_TOP = '/company-policy-poster.png';
-const DEFAULT_POSTER_BOTTOM = '/safety-culture.png';
-const DEFAULT_POLICY_IMAGES: string[] = ['/policy-vp.png'];
+const DEFAULT_POSTER_TOP = singlePage('/company-policy-poster.png');
+const DEFAULT_POSTER_BOTTOM = singlePage('/safety-culture.png');
+const DEFAULT_POLICY_IMAGES: PolicyImage[] = [createPolicyImage(singlePage('/policy-vp.png'))];
 
 type MetricToneKey = 'firstAid' | 'nonAbsent' | 'absent' | 'fire' | 'neutral';
 
@@ -118,71 +244,11 @@ function metricAccentStyle(tone: MetricToneKey) {
   } as React.CSSProperties;
 }
 
-function clamp(n: number, min: number, max: number) { return Math.min(max, Math.max(min, n)); }
-function uid(prefix='id'){ return `${prefix}-${Math.random().toString(16).slice(2)}-${Date.now()}`; }
-
-function toISODate(d: Date) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
-
-function nextDayStatus(status: DayStatus): DayStatus {
-  if (status === null) return 'safe';
-  if (status === 'safe') return 'near_miss';
-  if (status === 'near_miss') return 'accident';
-  return null;
-}
-
-function createYearData(year:number): MonthlyData[] {
-  return Array.from({length:12}, (_,m)=> ({
-    month:m, year,
-    days: Array.from({length:new Date(year,m+1,0).getDate()},(_,i)=>({day:i+1,status:null}))
-  }));
-}
-
-function isValidMonthlyData(data: unknown, year:number): data is MonthlyData[] {
-  return Array.isArray(data) && data.length===12 && data.every((m:any, idx)=>
-    m && m.month===idx && m.year===year && Array.isArray(m.days) && m.days.length===new Date(year, idx+1, 0).getDate()
-  );
-}
-
-function applyAutoSafe(prev: MonthlyData[], now: Date, year: number): MonthlyData[] {
-  if (now.getFullYear() !== year) return prev;
-  const todayStart = new Date(year, now.getMonth(), now.getDate());
-  const afterCutoff = (now.getHours() > AUTO_SAFE_HOUR) || (now.getHours() === AUTO_SAFE_HOUR && now.getMinutes() >= 0);
-
-  let next: MonthlyData[] | null = null;
-  const ensureNext = () => {
-    if (!next) next = prev.map((mm) => ({ ...mm, days: mm.days.map((dd) => ({ ...dd })) }));
-    return next;
-  };
-
-  let changed = false;
-
-  for (let m = 0; m < 12; m++) {
-    const month = prev[m];
-    if (!month) continue;
-    for (let i = 0; i < month.days.length; i++) {
-      const dd = month.days[i];
-      if (dd.status !== null) continue;
-      const dt = new Date(year, m, dd.day);
-      if (dt < todayStart) {
-        const tgt = ensureNext()[m].days[i];
-        tgt.status = 'safe';
-        changed = true;
-        continue;
-      }
-      if (afterCutoff && m === now.getMonth() && dd.day === now.getDate()) {
-        const tgt = ensureNext()[m].days[i];
-        tgt.status = 'safe';
-        changed = true;
-      }
-    }
-  }
-
-  return changed && next ? next : prev;
+function saveErrorMessage(err: unknown, bytes: number) {
+  const quota = err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+  return quota
+    ? `บันทึกข้อมูลไม่สำเร็จ: พื้นที่จัดเก็บของเบราว์เซอร์เต็ม (ข้อมูลปีนี้ ${formatBytes(bytes)})`
+    : 'บันทึกข้อมูลไม่สำเร็จ: เบราว์เซอร์ไม่อนุญาตให้บันทึก';
 }
 
 const BASE_VIEWPORT = { width: 1920, height: 1080 };
@@ -334,14 +400,6 @@ function formatNumber(n: number | null | undefined) {
   return new Intl.NumberFormat(undefined, { maximumFractionDigits: 0 }).format(n);
 }
 
-type TargetVars = {
-  manpower: number;
-  daysPerWeek: number;
-  hoursPerDay: number;
-  workingDaysYear: number;
-  workingDaysSoFar: number;
-};
-
 type TargetFormulas = {
   totalExpr: string;
   toDateExpr: string;
@@ -360,27 +418,124 @@ const DEFAULT_TARGET_FORMULAS: TargetFormulas = {
   toDateExpr: 'manpower * daysPerWeek * hoursPerDay * workingDaysSoFar',
 };
 
+// Everything stored per profile and year.
+interface YearState {
+  areas: Area[];
+  areaData: AreaData;
+  incidents: Incident[];
+  holidays: Holiday[];
+  workWeek: WorkWeek;
+  shifts: Shift[];
+  dayClassifications: DayClassification[];
+  announcements: Announcement[];
+  posterTopSlides: PosterSlide[];
+  posterBottomSlides: PosterSlide[];
+  policyImages: PolicyImage[];
+  policyLayout: PolicyLayout;
+  policyPageSeconds: number;
+  policyZoom: number;
+  targetVars: TargetVars;
+  targetAuto: TargetAuto;
+  targetFormulas: TargetFormulas;
+  bestRecord: number;
+  rateBase: RateBase;
+  lastUpdateIso: string;
+  metrics: SafetyMetric[];
+}
+
+// Fixed key order, so the same state always serializes to the same JSON whether it was
+// edited here or just applied from another display.
+function yearStateJson(s: YearState) {
+  return JSON.stringify({
+    areas: s.areas,
+    areaData: s.areaData,
+    incidents: s.incidents,
+    holidays: s.holidays,
+    workWeek: s.workWeek,
+    shifts: s.shifts,
+    dayClassifications: s.dayClassifications,
+    announcements: s.announcements,
+    posterTopSlides: s.posterTopSlides,
+    posterBottomSlides: s.posterBottomSlides,
+    policyImages: s.policyImages,
+    policyLayout: s.policyLayout,
+    policyPageSeconds: s.policyPageSeconds,
+    policyZoom: s.policyZoom,
+    targetVars: s.targetVars,
+    targetAuto: s.targetAuto,
+    targetFormulas: s.targetFormulas,
+    bestRecord: s.bestRecord,
+    rateBase: s.rateBase,
+    lastUpdateIso: s.lastUpdateIso,
+    metrics: s.metrics,
+  });
+}
+
 export function SafetyDashboard() {
   const now = new Date();
-  const [displayMonth, setDisplayMonth] = useState(now.getMonth());
-  const [currentYear, setCurrentYear] = useState(now.getFullYear());
-  const [monthlyData, setMonthlyData] = useState<MonthlyData[]>(() => createYearData(now.getFullYear()));
-
-  // Posters (left column)
-  const [posterTop, setPosterTop] = useState<string | null>(DEFAULT_POSTER_TOP);
-  const [posterBottom, setPosterBottom] = useState<string | null>(DEFAULT_POSTER_BOTTOM);
-  const [posterTopZoom, setPosterTopZoom] = useState(1);
-  const [posterBottomZoom, setPosterBottomZoom] = useState(1);
-
-  // Safety Policy (top-middle): up to 2 images
-  const [policyImages, setPolicyImages] = useState<string[]>(DEFAULT_POLICY_IMAGES);
+  // Fixed for the page's lifetime; switching profiles reloads with a different URL.
+  const [profile] = useState(profileFromUrl);
+  const [stateServer] = useState(stateServerUrl);
+  const [syncState, setSyncState] = useState<SyncState>('local');
+  // Storage key whose stored state has been applied; persisting waits for it.
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  // Bumped when other years arrive from the state server.
+  const [storageRevision, setStorageRevision] = useState(0);
+  // Last payload JSON sent, or the state a received payload serializes to once applied.
+  const lastSyncedJsonRef = useRef<string | null>(null);
+  // JSON of the state on screen as of the last persist, saved or not.
+  const stateJsonRef = useRef<string | null>(null);
+  // Save still waiting out the persist debounce.
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  // Last failed save (state or uploaded image), shown until a save succeeds again.
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{ local: number; media: MediaUsage | null }>({ local: 0, media: null });
+  // Production day the page opened on. Until the last night shift of 31 December ends, the
+  // live year is still the old one; last year's stored shifts tell when that is.
+  const [openingDay] = useState(() => shiftClock(new Date(), readYearShifts(new Date().getFullYear() - 1, profile)).day);
+  const [displayMonth, setDisplayMonth] = useState(openingDay.getMonth());
+  // Year of the current production day, which the dashboard records into.
+  const [currentYear, setCurrentYear] = useState(openingDay.getFullYear());
+  // Year shown in the Safety Calendar; earlier years are read-only archives, later ones are planned ahead.
+  const [viewYear, setViewYear] = useState(openingDay.getFullYear());
+  const [todayIso, setTodayIso] = useState(() => toISODate(now));
+  // Night-shift hours after midnight still belong to the previous production day.
+  const [productionDayIso, setProductionDayIso] = useState(() => toISODate(openingDay));
+  const [areas, setAreas] = useState<Area[]>(DEFAULT_AREAS);
+  const [areaData, setAreaData] = useState<AreaData>(() => loadAreaData(null, DEFAULT_AREAS, openingDay.getFullYear()));
+  // Area shown by the Safety Streak and Safety Calendar cards (PLANT_VIEW = roll-up). Kept
+  // per screen rather than in the shared state, so each TV can show its own area.
+  const areaSettingKey = `safety-dashboard-ui-area:${profile}`;
+  const [areaSetting] = useState<{ view?: unknown; rotate?: unknown }>(() => {
+    try { return JSON.parse(localStorage.getItem(areaSettingKey) || '{}') || {}; } catch { return {}; }
+  });
+  const [areaView, setAreaView] = useState<string>(typeof areaSetting.view === 'string' ? areaSetting.view : PLANT_VIEW);
+  const [areaRotate, setAreaRotate] = useState(!!areaSetting.rotate);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>(DEFAULT_HOLIDAYS);
+  const [workWeek, setWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
+  const [shifts, setShifts] = useState<Shift[]>(DEFAULT_SHIFTS);
+  const [dayClassifications, setDayClassifications] = useState<DayClassification[]>(DEFAULT_DAY_CLASSIFICATIONS);
+
+  // Posters (left column): each card plays a playlist. The slide on screen is per device.
+  const [posterTopSlides, setPosterTopSlides] = useState<PosterSlide[]>(() => [createSlide(DEFAULT_POSTER_TOP)]);
+  const [posterBottomSlides, setPosterBottomSlides] = useState<PosterSlide[]>(() => [createSlide(DEFAULT_POSTER_BOTTOM)]);
+  const [posterTopIndex, setPosterTopIndex] = useState(0);
+  const [posterBottomIndex, setPosterBottomIndex] = useState(0);
+
+  // Safety Policy (top-middle): an ordered list of images or documents, paged through
+  // when more are showing than the layout fits
+  const [policyImages, setPolicyImages] = useState<PolicyImage[]>(DEFAULT_POLICY_IMAGES);
+  const [policyLayout, setPolicyLayout] = useState<PolicyLayout>(DEFAULT_POLICY_LAYOUT);
+  const [policyPageSeconds, setPolicyPageSeconds] = useState(() => sanitizePolicyPageSeconds(null));
   const [policyZoom, setPolicyZoom] = useState(1);
 
   // Target + metrics (center-bottom)
   const [targetVars, setTargetVars] = useState<TargetVars>(DEFAULT_TARGET_VARS);
+  const [targetAuto, setTargetAuto] = useState<TargetAuto>(DEFAULT_TARGET_AUTO);
   const [targetFormulas, setTargetFormulas] = useState<TargetFormulas>(DEFAULT_TARGET_FORMULAS);
   const [bestRecord, setBestRecord] = useState<number>(0);
-  const [lossTimeAccidents, setLossTimeAccidents] = useState<number>(0);
+  const [rateBase, setRateBase] = useState<RateBase>(DEFAULT_RATE_BASE);
   const [lastUpdateIso, setLastUpdateIso] = useState<string>(() => new Date().toISOString());
 
   const [metrics, setMetrics] = useState<SafetyMetric[]>(DEFAULT_METRICS);
@@ -389,6 +544,20 @@ export function SafetyDashboard() {
   const [announcements, setAnnouncements] = useState<Announcement[]>(DEFAULT_ANNOUNCEMENTS);
 
   const [layoutLocked, setLayoutLocked] = useState(true);
+  // Signed out the dashboard is a kiosk viewer; signing in with a PIN shows the editors
+  // the account's role allows.
+  const [accountStore, setAccountStore] = useState<AccountStore>(readLocalAccounts);
+  const { accounts } = accountStore;
+  const [currentUser, setCurrentUser] = useState<Account | null>(null);
+  // Kept in memory while signed in: the server wants it for changes to the account list.
+  const credentialRef = useRef<AccountCredential | null>(null);
+  // What the state server holds: not known yet (or unreachable), a list, or none at all.
+  // The list is never written while unknown, so a failed fetch can't replace it.
+  const [remoteAccounts, setRemoteAccounts] = useState<'unknown' | 'stored' | 'none'>('unknown');
+  const accountsKnown = !stateServer || remoteAccounts !== 'unknown';
+  const [signingIn, setSigningIn] = useState(false);
+  const [editAccounts, setEditAccounts] = useState(false);
+  const allowed = (permission: Permission) => can(currentUser, permission);
   const [uiScale, setUiScale] = useState<number>(() => {
     try {
       const raw = localStorage.getItem('safety-dashboard-ui-scale');
@@ -405,47 +574,111 @@ export function SafetyDashboard() {
 
   const [editTarget, setEditTarget] = useState(false);
   const [targetVarsDraft, setTargetVarsDraft] = useState<TargetVars>(DEFAULT_TARGET_VARS);
+  const [targetAutoDraft, setTargetAutoDraft] = useState<TargetAuto>(DEFAULT_TARGET_AUTO);
   const [targetFormulasDraft, setTargetFormulasDraft] = useState<TargetFormulas>(DEFAULT_TARGET_FORMULAS);
   const [bestRecordDraft, setBestRecordDraft] = useState('0');
-  const [lossTimeAccidentsDraft, setLossTimeAccidentsDraft] = useState('0');
+  const [rateBaseDraft, setRateBaseDraft] = useState<RateBase>(DEFAULT_RATE_BASE);
 
   const [editTicker, setEditTicker] = useState(false);
-  const [tickerDraft, setTickerDraft] = useState('');
+  const [editPolicy, setEditPolicy] = useState(false);
+
+  const [incidentDate, setIncidentDate] = useState<string | null>(null);
+  const [editHolidays, setEditHolidays] = useState(false);
+  const [editClassifications, setEditClassifications] = useState(false);
+  const [editAreas, setEditAreas] = useState(false);
+  const [editProfiles, setEditProfiles] = useState(false);
+  const [editPosterTopPlaylist, setEditPosterTopPlaylist] = useState(false);
+  const [editPosterBottomPlaylist, setEditPosterBottomPlaylist] = useState(false);
+  // Image, PDF or video picked for upload, waiting in its preview dialog, and where it
+  // goes. Only the poster cards take video.
+  const [pendingUpload, setPendingUpload] = useState<{
+    file: File;
+    apply: (set: PageSet) => void;
+    applyVideo?: (clip: VideoClip) => void;
+  } | null>(null);
+  // Image whose crop / fit / position is being edited from a card, and where it goes.
+  const [framingTarget, setFramingTarget] = useState<(FramingTarget & { apply: (framing: Framing | null) => void }) | null>(null);
 
   // file inputs
   const posterTopInputRef = useRef<HTMLInputElement>(null);
   const posterBottomInputRef = useRef<HTMLInputElement>(null);
-  const policyReplaceInputRef = useRef<HTMLInputElement>(null);
   const policyAddInputRef = useRef<HTMLInputElement>(null);
+  // card bodies, measured so the framing editor previews their shape
+  const posterTopFrameRef = useRef<HTMLDivElement>(null);
+  const posterBottomFrameRef = useRef<HTMLDivElement>(null);
+  const policyFrameRef = useRef<HTMLDivElement>(null);
+
+  const storageKey = yearStorageKey(currentYear, profile);
 
-  const storageKey = `safety-dashboard-${currentYear}`;
+  const holidayMap = useMemo(() => holidaysByDate(holidays), [holidays]);
+  const dayOffMap = useMemo(() => dayOffNotes(holidays), [holidays]);
+  const classById = useMemo(() => classificationsById(dayClassifications), [dayClassifications]);
+  const isWorkingDate = useCallback((d: Date) => isWorkingDay(d, workWeek, dayOffMap), [workWeek, dayOffMap]);
 
-  // Auto SAFE scheduler (16:00) + backfill
+  // Auto SAFE scheduler (end of the last shift) + backfill
   useEffect(() => {
-    const now = new Date();
-    if (now.getFullYear() !== currentYear) return;
+    if (shiftClock(new Date(), shifts).day.getFullYear() !== currentYear) return;
 
     let timer: number | undefined;
 
     const scheduleNext = () => {
       const current = new Date();
-      const next = new Date(current);
-      next.setHours(AUTO_SAFE_HOUR, 0, 0, 0);
-      if (current.getTime() >= next.getTime()) next.setDate(next.getDate() + 1);
+      const next = nextCutoffAt(current, shifts);
 
       const ms = Math.max(250, next.getTime() - current.getTime());
       timer = window.setTimeout(() => {
         const fireNow = new Date();
-        setMonthlyData((prev) => applyAutoSafe(prev, fireNow, currentYear));
+        setAreaData((prev) => mapAreaData(prev, (d) => applyAutoSafe(d, fireNow, currentYear, isWorkingDate, shifts)));
         scheduleNext();
       }, ms);
     };
 
+    // A changed shift pattern may already have closed today's production day.
+    setAreaData((prev) => mapAreaData(prev, (d) => applyAutoSafe(d, new Date(), currentYear, isWorkingDate, shifts)));
     scheduleNext();
     return () => {
       if (timer) window.clearTimeout(timer);
     };
-  }, [currentYear]);
+  }, [currentYear, isWorkingDate, shifts]);
+
+  // Track the calendar day so date-derived values refresh on a running display, and roll
+  // the live year over once the first production day of the new year starts (after the
+  // last night shift of 31 December) so it keeps counting. Days of the old year still
+  // NOT SET are closed first; the switch follows once that state is in, and its pending
+  // save is flushed to the old year.
+  useEffect(() => {
+    const tick = () => {
+      const today = new Date();
+      setTodayIso(toISODate(today));
+      const { day } = shiftClock(today, shifts);
+      setProductionDayIso(toISODate(day));
+      const y = day.getFullYear();
+      if (y === currentYear) return;
+      const closed = mapAreaData(areaData, (d) => applyAutoSafe(d, today, currentYear, isWorkingDate, shifts));
+      if (closed !== areaData) {
+        setAreaData(closed);
+        return;
+      }
+      setCurrentYear(y);
+      if (viewYear === currentYear) {
+        setViewYear(y);
+        setDisplayMonth(day.getMonth());
+      }
+    };
+    tick();
+    const t = window.setInterval(tick, 60 * 1000);
+    return () => window.clearInterval(t);
+  }, [currentYear, viewYear, shifts, areaData, isWorkingDate]);
+
+  // Rotate the Safety Streak / Calendar cards through the plant roll-up and each area
+  useEffect(() => {
+    if (!areaRotate) return;
+    const views = [PLANT_VIEW, ...areas.map((a) => a.id)];
+    const t = window.setInterval(() => {
+      setAreaView((v) => views[(views.indexOf(v) + 1) % views.length]);
+    }, AREA_ROTATE_SECONDS * 1000);
+    return () => window.clearInterval(t);
+  }, [areaRotate, areas]);
 
   // Root font size scaled for TV
   useEffect(() => {
@@ -463,136 +696,428 @@ export function SafetyDashboard() {
     try { localStorage.setItem('safety-dashboard-ui-scale', String(uiScale)); } catch {}
   }, [uiScale]);
 
-  // Load persisted state
   useEffect(() => {
+    try { localStorage.setItem(areaSettingKey, JSON.stringify({ view: areaView, rotate: areaRotate })); } catch {}
+  }, [areaSettingKey, areaView, areaRotate]);
+
+  // Applies a stored year payload (or, for a year never stored, the carried-over previous
+  // year) to the dashboard state. Used by the initial load and by live updates. Returns
+  // the applied state's JSON, or null when the defaults were used instead.
+  const applyStoredState = useCallback((storedRaw: string | null, carriedRaw: string | null): string | null => {
     try {
-      const raw = localStorage.getItem(storageKey);
-      if (!raw) {
-        setMonthlyData(applyAutoSafe(createYearData(currentYear), new Date(), currentYear));
-        return;
+      // A new year starts from last year's posters, metrics and targets with an empty
+      // calendar, or with the calendar planned for it in advance.
+      const raw = storedRaw && carriedRaw && isPlannedYear(storedRaw) ? withPlannedCalendar(carriedRaw, storedRaw) : storedRaw;
+      const carried = raw ? null : carriedRaw;
+      const defaultIsWorking = (d: Date) => isWorkingDay(d, DEFAULT_WORK_WEEK, dayOffNotes(DEFAULT_HOLIDAYS));
+      if (!raw && !carried) {
+        setAreas(DEFAULT_AREAS);
+        setAreaData(mapAreaData(loadAreaData(null, DEFAULT_AREAS, currentYear), (d) => applyAutoSafe(d, new Date(), currentYear, defaultIsWorking, DEFAULT_SHIFTS)));
+        setIncidents([]);
+        return null;
       }
-      const parsed = JSON.parse(raw);
-      const loadedMonthly = isValidMonthlyData(parsed.monthlyData, currentYear) ? parsed.monthlyData : createYearData(currentYear);
-      setMonthlyData(applyAutoSafe(loadedMonthly, new Date(), currentYear));
-
-      setAnnouncements(Array.isArray(parsed.announcements) && parsed.announcements.length ? parsed.announcements : DEFAULT_ANNOUNCEMENTS);
-
-      // Posters
-      setPosterTop(typeof parsed.posterTop === 'string' ? parsed.posterTop : DEFAULT_POSTER_TOP);
-      setPosterBottom(typeof parsed.posterBottom === 'string' ? parsed.posterBottom : DEFAULT_POSTER_BOTTOM);
-      setPosterTopZoom(typeof parsed.posterTopZoom === 'number' ? clamp(parsed.posterTopZoom, 0.5, 2.5) : 1);
-      setPosterBottomZoom(typeof parsed.posterBottomZoom === 'number' ? clamp(parsed.posterBottomZoom, 0.5, 2.5) : 1);
-
-      // Safety Policy images
-      if (Array.isArray(parsed.policyImages) && parsed.policyImages.length) {
-        setPolicyImages(parsed.policyImages.slice(0, 2));
-      } else {
-        setPolicyImages(DEFAULT_POLICY_IMAGES);
+      const parsed = JSON.parse((raw ?? carried)!);
+      if (!raw) {
+        for (const key of CALENDAR_KEYS) delete parsed[key];
       }
-      setPolicyZoom(typeof parsed.policyZoom === 'number' ? clamp(parsed.policyZoom, 0.5, 2.5) : 1);
+      const loadedHolidays = sanitizeHolidays(parsed.holidays) ?? DEFAULT_HOLIDAYS;
+      const loadedTargetVars: TargetVars = parsed.targetVars && typeof parsed.targetVars === 'object' ? { ...DEFAULT_TARGET_VARS, ...parsed.targetVars } : DEFAULT_TARGET_VARS;
+      // Dashboards saved before the work week setting follow their Day/Week variable.
+      const loadedWorkWeek = sanitizeWorkWeek(parsed.workWeek) ?? workWeekFromDaysPerWeek(loadedTargetVars.daysPerWeek);
+      const loadedDaysOff = dayOffNotes(loadedHolidays);
+      const loadedShifts = sanitizeShifts(parsed.shifts) ?? DEFAULT_SHIFTS;
+      const loadedAreas = sanitizeAreas(parsed.areas) ?? DEFAULT_AREAS;
+      const loadedAreaData = loadAreaData(parsed, loadedAreas, currentYear);
+      const loadedPolicy = sanitizePolicyImages(parsed.policyImages);
+      const next: YearState = {
+        areas: loadedAreas,
+        areaData: mapAreaData(loadedAreaData, (d) => applyAutoSafe(d, new Date(), currentYear, (dt) => isWorkingDay(dt, loadedWorkWeek, loadedDaysOff), loadedShifts)),
+        incidents: sanitizeIncidents(parsed.incidents, loadedAreas[0].id),
+        holidays: loadedHolidays,
+        workWeek: loadedWorkWeek,
+        shifts: loadedShifts,
+        dayClassifications: sanitizeClassifications(parsed.dayClassifications),
+        announcements: sanitizeAnnouncements(parsed.announcements) ?? DEFAULT_ANNOUNCEMENTS,
+        posterTopSlides: loadPlaylist(parsed.posterTopSlides, parsed.posterTop, parsed.posterTopZoom, DEFAULT_POSTER_TOP),
+        posterBottomSlides: loadPlaylist(parsed.posterBottomSlides, parsed.posterBottom, parsed.posterBottomZoom, DEFAULT_POSTER_BOTTOM),
+        policyImages: loadedPolicy.length ? loadedPolicy : DEFAULT_POLICY_IMAGES,
+        policyLayout: isPolicyLayout(parsed.policyLayout) ? parsed.policyLayout : DEFAULT_POLICY_LAYOUT,
+        policyPageSeconds: sanitizePolicyPageSeconds(parsed.policyPageSeconds),
+        policyZoom: typeof parsed.policyZoom === 'number' ? clamp(parsed.policyZoom, 0.5, 2.5) : 1,
+        targetVars: loadedTargetVars,
+        targetAuto: parsed.targetAuto && typeof parsed.targetAuto === 'object' ? { ...DEFAULT_TARGET_AUTO, ...parsed.targetAuto } : DEFAULT_TARGET_AUTO,
+        targetFormulas: parsed.targetFormulas && typeof parsed.targetFormulas === 'object' ? { ...DEFAULT_TARGET_FORMULAS, ...parsed.targetFormulas } : DEFAULT_TARGET_FORMULAS,
+        bestRecord: Number.isFinite(Number(parsed.bestRecord)) ? Number(parsed.bestRecord) : 0,
+        rateBase: isRateBase(parsed.rateBase) ? parsed.rateBase : DEFAULT_RATE_BASE,
+        lastUpdateIso: typeof parsed.lastUpdateIso === 'string' ? parsed.lastUpdateIso : new Date().toISOString(),
+        metrics: Array.isArray(parsed.metrics) && parsed.metrics.length
+          ? parsed.metrics.map((m: SafetyMetric) => ({ ...m, source: inferMetricSource(String(m.label ?? ''), m.source) }))
+          : DEFAULT_METRICS,
+      };
+      setAreas(next.areas);
+      setAreaData(next.areaData);
+      setIncidents(next.incidents);
+      setHolidays(next.holidays);
+      setWorkWeek(next.workWeek);
+      setShifts(next.shifts);
+      setDayClassifications(next.dayClassifications);
+      setAnnouncements(next.announcements);
+      setPosterTopSlides(next.posterTopSlides);
+      setPosterBottomSlides(next.posterBottomSlides);
+      setPolicyImages(next.policyImages);
+      setPolicyLayout(next.policyLayout);
+      setPolicyPageSeconds(next.policyPageSeconds);
+      setPolicyZoom(next.policyZoom);
+      setTargetVars(next.targetVars);
+      setTargetAuto(next.targetAuto);
+      setTargetFormulas(next.targetFormulas);
+      setBestRecord(next.bestRecord);
+      setRateBase(next.rateBase);
+      setLastUpdateIso(next.lastUpdateIso);
+      setMetrics(next.metrics);
+      return yearStateJson(next);
+    } catch {
+      setAreas(DEFAULT_AREAS);
+      setAreaData(mapAreaData(loadAreaData(null, DEFAULT_AREAS, currentYear), (d) => applyAutoSafe(d, new Date(), currentYear, (dt) => isWorkingDay(dt, DEFAULT_WORK_WEEK, dayOffNotes(DEFAULT_HOLIDAYS)), DEFAULT_SHIFTS)));
+      return null;
+    } finally {
+      setLoadedKey(storageKey);
+    }
+  }, [storageKey, currentYear]);
 
-      // Target
-      setTargetVars(parsed.targetVars && typeof parsed.targetVars === 'object' ? { ...DEFAULT_TARGET_VARS, ...parsed.targetVars } : DEFAULT_TARGET_VARS);
-      setTargetFormulas(parsed.targetFormulas && typeof parsed.targetFormulas === 'object' ? { ...DEFAULT_TARGET_FORMULAS, ...parsed.targetFormulas } : DEFAULT_TARGET_FORMULAS);
-      setBestRecord(Number.isFinite(Number(parsed.bestRecord)) ? Number(parsed.bestRecord) : 0);
-      setLossTimeAccidents(Number.isFinite(Number(parsed.lossTimeAccidents)) ? Number(parsed.lossTimeAccidents) : 0);
-      setLastUpdateIso(typeof parsed.lastUpdateIso === 'string' ? parsed.lastUpdateIso : new Date().toISOString());
+  // Load persisted state: from the state server when one is configured (this browser's
+  // copy stands in while it can't be reached), otherwise from localStorage.
+  useEffect(() => {
+    let cancelled = false;
+    const readLocal = (key: string) => {
+      try { return localStorage.getItem(key); } catch { return null; }
+    };
+    const prevKey = yearStorageKey(currentYear - 1, profile);
 
-      // Metrics
-      setMetrics(Array.isArray(parsed.metrics) && parsed.metrics.length ? parsed.metrics : DEFAULT_METRICS);
+    // The previous year carries over into one that has never been stored, or that only
+    // has a calendar planned ahead.
+    const needsCarry = (raw: string | null) => !raw || isPlannedYear(raw);
 
-    } catch {
-      setMonthlyData(applyAutoSafe(createYearData(currentYear), new Date(), currentYear));
+    if (!stateServer) {
+      const raw = readLocal(storageKey);
+      applyStoredState(raw, needsCarry(raw) ? readLocal(prevKey) : null);
+      return;
     }
-  }, [storageKey, currentYear]);
 
-  // Persist state (debounced)
+    (async () => {
+      let raw: string | null;
+      let carried: string | null = null;
+      try {
+        const remote = await fetchRemoteState(stateServer, storageKey);
+        raw = remote ?? readLocal(storageKey);
+        lastSyncedJsonRef.current = remote;
+        if (needsCarry(raw)) carried = (await fetchRemoteState(stateServer, prevKey)) ?? readLocal(prevKey);
+        if (cancelled) return;
+        setSyncState('synced');
+      } catch {
+        if (cancelled) return;
+        raw = readLocal(storageKey);
+        if (needsCarry(raw)) carried = readLocal(prevKey);
+        setSyncState('offline');
+        applyStoredState(raw, carried);
+        return;
+      }
+      applyStoredState(raw, carried);
+      // Earlier years feed the archive view and the cross-year streak.
+      cacheRemoteYears(stateServer, profile, storageKey)
+        .then((n) => { if (!cancelled && n) setStorageRevision((r) => r + 1); })
+        .catch(() => {});
+    })();
+    return () => { cancelled = true; };
+  }, [storageKey, currentYear, profile, stateServer, applyStoredState]);
+
+  const refreshStorageUsage = useCallback(() => {
+    const local = localStorageUsage();
+    mediaUsage().then(
+      (media) => setStorageUsage({ local, media }),
+      () => setStorageUsage({ local, media: null }),
+    );
+  }, []);
+
+  // Images saved inline by older versions move into the media store, keeping the year's
+  // JSON small enough for localStorage.
   useEffect(() => {
-    const payload = {
-      monthlyData,
+    if (loadedKey !== storageKey) return;
+    const posters = [...posterTopSlides, ...posterBottomSlides].map((s) => s.content);
+    const sets = [...posters, ...policyImages.map((d) => d.content)].filter((d): d is PageSet => !isVideoClip(d));
+    const legacy = sets.flatMap((d) => d.pages).filter(isDataUrl);
+    if (!legacy.length) return;
+    let cancelled = false;
+    (async () => {
+      const refs = new Map<string, string>();
+      for (const src of legacy) refs.set(src, await storeDataUrl(src, stateServer));
+      if (cancelled) return;
+      const swap = (src: string) => refs.get(src) ?? src;
+      const swapSlides = (p: PosterSlide[]) => p.map((s) => (isVideoClip(s.content) ? s : { ...s, content: mapPageSources(s.content, swap) }));
+      setPosterTopSlides(swapSlides);
+      setPosterBottomSlides(swapSlides);
+      setPolicyImages((p) => p.map((d) => ({ ...d, content: mapPageSources(d.content, swap) })));
+    })();
+    return () => { cancelled = true; };
+  }, [loadedKey, storageKey, posterTopSlides, posterBottomSlides, policyImages, stateServer]);
+
+  // Replaced and removed images are deleted once neither a stored year nor the state on
+  // screen refers to them. While saves fail the stored years lag behind the screen, so
+  // nothing is deleted until one succeeds again.
+  useEffect(() => {
+    if (loadedKey !== storageKey || saveError) return;
+    const t = window.setTimeout(() => {
+      const referenced = referencedMediaIds();
+      for (const id of mediaRefsIn(stateJsonRef.current ?? '')) referenced.add(id);
+      pruneMedia(referenced).then(refreshStorageUsage, () => {});
+    }, 10000);
+    return () => window.clearTimeout(t);
+  }, [loadedKey, storageKey, saveError, refreshStorageUsage]);
+
+  // Live updates from other tabs and displays replace the whole year's state. The ref then
+  // holds what that state serializes to, so persisting it doesn't echo it back while an
+  // edit made here in the meantime still differs and gets sent.
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    return subscribeLiveUpdates(storageKey, stateServer, (json) => {
+      if (json === lastSyncedJsonRef.current) return;
+      lastSyncedJsonRef.current = applyStoredState(json, null) ?? json;
+      if (stateServer) setSyncState('synced');
+    });
+  }, [loadedKey, storageKey, stateServer, applyStoredState]);
+
+  // Persist state (debounced). Nothing is written until the year's stored state has loaded,
+  // so a slow server response can't be overwritten by the initial defaults.
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    const payload: YearState = {
+      areas,
+      areaData,
+      incidents,
+      holidays,
+      workWeek,
+      shifts,
+      dayClassifications,
       announcements,
-      posterTop,
-      posterBottom,
-      posterTopZoom,
-      posterBottomZoom,
+      posterTopSlides,
+      posterBottomSlides,
       policyImages,
+      policyLayout,
+      policyPageSeconds,
       policyZoom,
       targetVars,
+      targetAuto,
       targetFormulas,
       bestRecord,
-      lossTimeAccidents,
+      rateBase,
       lastUpdateIso,
       metrics,
     };
-    const t = window.setTimeout(() => {
-      try { localStorage.setItem(storageKey, JSON.stringify(payload)); } catch {}
-    }, 450);
+    const save = () => {
+      pendingSaveRef.current = null;
+      const json = yearStateJson(payload);
+      stateJsonRef.current = json;
+      try {
+        localStorage.setItem(storageKey, json);
+        setSaveError(null);
+      } catch (err) {
+        setSaveError(saveErrorMessage(err, json.length * 2));
+      }
+      refreshStorageUsage();
+      // State that just arrived from another display isn't sent back out.
+      if (json === lastSyncedJsonRef.current) return;
+      lastSyncedJsonRef.current = json;
+      announceLocalChange(storageKey, json);
+      if (stateServer) {
+        uploadPendingMedia(stateServer)
+          .then(() => pushRemoteState(stateServer, storageKey, json, LIVE_CLIENT_ID))
+          .then(
+            () => setSyncState('synced'),
+            () => setSyncState('offline'),
+          );
+      }
+    };
+    pendingSaveRef.current = save;
+    const t = window.setTimeout(save, 450);
     return () => window.clearTimeout(t);
   }, [
+    loadedKey,
+    stateServer,
     storageKey,
-    monthlyData,
+    refreshStorageUsage,
+    areas,
+    areaData,
+    incidents,
+    holidays,
+    workWeek,
+    shifts,
+    dayClassifications,
     announcements,
-    posterTop,
-    posterBottom,
-    posterTopZoom,
-    posterBottomZoom,
+    posterTopSlides,
+    posterBottomSlides,
     policyImages,
+    policyLayout,
+    policyPageSeconds,
     policyZoom,
     targetVars,
+    targetAuto,
     targetFormulas,
     bestRecord,
-    lossTimeAccidents,
+    rateBase,
     lastUpdateIso,
     metrics,
   ]);
 
-  const displayMonthData = monthlyData[displayMonth];
+  // A save still pending when the live year rolls over (the last production day closed by
+  // auto SAFE moments before) goes out at once, to the year it belongs to.
+  useEffect(() => {
+    const flush = pendingSaveRef;
+    return () => flush.current?.();
+  }, [storageKey]);
+
+  // An area deleted since the view was picked falls back to the plant roll-up.
+  const activeView = areaView === PLANT_VIEW || areas.some((a) => a.id === areaView) ? areaView : PLANT_VIEW;
+
+  // Scheduled items come and go as the clock passes their boundaries.
+  const scheduleNow = useScheduleClock();
+  const posterTopShown = useMemo(() => posterTopSlides.filter((s) => isScheduled(s.schedule, scheduleNow)), [posterTopSlides, scheduleNow]);
+  const posterBottomShown = useMemo(() => posterBottomSlides.filter((s) => isScheduled(s.schedule, scheduleNow)), [posterBottomSlides, scheduleNow]);
+  const policyShown = useMemo(() => policyImages.filter((d) => isScheduled(d.schedule, scheduleNow)), [policyImages, scheduleNow]);
+  const announcementsShown = useMemo(() => announcements.filter((a) => isScheduled(a.schedule, scheduleNow)), [announcements, scheduleNow]);
+
+  // The slide each poster card shows, once removals or schedules have shortened its playlist.
+  const posterTopCurrent = Math.min(posterTopIndex, Math.max(0, posterTopShown.length - 1));
+  const posterBottomCurrent = Math.min(posterBottomIndex, Math.max(0, posterBottomShown.length - 1));
+  const posterTopSlide = posterTopShown[posterTopCurrent] as PosterSlide | undefined;
+  const posterBottomSlide = posterBottomShown[posterBottomCurrent] as PosterSlide | undefined;
+  const activeAreaName = activeView === PLANT_VIEW ? 'ทั้งโรงงาน' : areas.find((a) => a.id === activeView)?.name || 'พื้นที่';
+
+  // Calendar view of the year for the active area: stored status, overridden by the worst
+  // incident of each day; the plant view takes the worst status across areas.
+  const calendarData = useMemo(
+    () => viewCalendar(areaData, areas, activeView, incidents, classById, currentYear),
+    [areaData, areas, activeView, incidents, classById, currentYear],
+  );
+
+  // Past years are closed and read-only; coming years can be planned ahead.
+  const isArchiveView = viewYear !== currentYear;
+  const isClosedYear = viewYear < currentYear;
+  const archive = useMemo(
+    () => (isArchiveView ? readYearCalendar(viewYear, profile, { areas, classifications: dayClassifications }) : null),
+    // The live areas only stand in for a coming year that hasn't been stored yet.
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- storageRevision: the year may have been rewritten
+    [isArchiveView, viewYear, profile, areas, dayClassifications, storageRevision],
+  );
+  // Other years render with the classifications they were recorded under.
+  const viewClassifications = archive ? archive.classifications : dayClassifications;
+  const viewClassById = useMemo(() => (archive ? classificationsById(archive.classifications) : classById), [archive, classById]);
+  const viewIncidentsByDate = useMemo(
+    () => groupIncidentsByDate(incidentsInView(archive ? archive.incidents : incidents, activeView)),
+    [archive, incidents, activeView],
+  );
+  const viewCalendarData = useMemo(
+    () => (archive ? viewCalendar(archive.areaData, archive.areas, activeView, archive.incidents, viewClassById, viewYear) : calendarData),
+    [archive, activeView, viewClassById, viewYear, calendarData],
+  );
+
+  // A coming year planned on another screen shows up here too.
+  useEffect(() => {
+    if (viewYear <= currentYear) return;
+    const key = yearStorageKey(viewYear, profile);
+    return subscribeLiveUpdates(key, stateServer, (json) => {
+      try { localStorage.setItem(key, json); } catch {}
+      setStorageRevision((r) => r + 1);
+    });
+  }, [viewYear, currentYear, profile, stateServer]);
+
+  const yearOptions = useMemo(() => {
+    const set = new Set([...listStoredYears(profile), currentYear, viewYear]);
+    return Array.from(set).sort((a, b) => b - a);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- a stored year may have been added
+  }, [currentYear, viewYear, profile, storageRevision]);
+
+  const displayMonthData = viewCalendarData[displayMonth];
+
+  // Earlier years are only read for the streak; cached until the live year or area changes,
+  // or another screen rewrites a stored year.
+  const pastYearStatuses = useMemo(() => {
+    const cache = new Map<number, MonthlyData[]>();
+    return (year: number) => {
+      let data = cache.get(year);
+      if (!data) {
+        data = readYearStatuses(year, activeView, profile);
+        cache.set(year, data);
+      }
+      return data;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- the cache has to be dropped then
+  }, [currentYear, activeView, profile, storageRevision]);
+
+  const streakRules = useMemo(
+    () => ({ countNonWorking: workWeek.countNonWorkingInStreak, classes: classById }),
+    [workWeek.countNonWorkingInStreak, classById],
+  );
 
-  const safetyStreak = useMemo(() => {
-    const nowDt = new Date();
+  const safetyStreak = useMemo((): SafetyStreak => {
+    const nowDt = fromISODate(productionDayIso) ?? new Date();
     const y = nowDt.getFullYear();
-    if (y !== currentYear) return 0;
+    if (y !== currentYear) return { days: 0, start: null, end: null };
 
     const todayM = nowDt.getMonth();
     const todayD = nowDt.getDate();
-    const todayStatus = monthlyData[todayM]?.days?.[todayD - 1]?.status ?? null;
+    const todayStatus = calendarData[todayM]?.days?.[todayD - 1]?.status ?? null;
 
-    // If today's status isn't set yet (e.g., before 16:00), count streak up to yesterday.
-    const end = (todayStatus === 'safe' || todayStatus === 'near_miss')
+    // If today's status isn't set yet (e.g., before the last shift ends), count streak up to yesterday.
+    const end = streakStep(todayStatus, streakRules) === 'count'
       ? new Date(y, todayM, todayD)
       : new Date(y, todayM, todayD - 1);
 
-    if (end.getFullYear() !== y) return 0;
-
-    let streak = 0;
-    for (let dt = new Date(end); ; ) {
-      const m = dt.getMonth();
-      const d = dt.getDate();
-      const st = monthlyData[m]?.days?.[d - 1]?.status ?? null;
-
-      // Count SAFE and NEAR MISS as streak days; break on ACCIDENT or NOT SET.
-      if (st === 'safe' || st === 'near_miss') streak += 1;
-      else break;
-
-      dt.setDate(dt.getDate() - 1);
-      if (dt.getFullYear() !== y) break;
-    }
-    return streak;
-  }, [monthlyData, currentYear]);
+    return computeSafetyStreak(
+      end,
+      (year) => (year === currentYear ? calendarData : pastYearStatuses(year)),
+      streakRules,
+    );
+  }, [calendarData, currentYear, pastYearStatuses, productionDayIso, streakRules]);
+
+  const streakStartLabel = useMemo(() => (safetyStreak.start ? formatShortDate(safetyStreak.start) : ''), [safetyStreak]);
+
+  // Longest accident-free run in the stored history. The current streak is kept apart so
+  // it can be flagged when it overtakes the previous record.
+  const streakRecord = useMemo(() => {
+    const yearData = (year: number) => (year === currentYear ? calendarData : pastYearStatuses(year));
+    const firstYear = Math.min(currentYear, ...listStoredYears(profile));
+    const today = new Date();
+    const before = safetyStreak.start
+      ? new Date(safetyStreak.start.getFullYear(), safetyStreak.start.getMonth(), safetyStreak.start.getDate() - 1)
+      : today;
+    const previous = findLongestStreak(new Date(firstYear, 0, 1), before, yearData, streakRules);
+    const longest = safetyStreak.days > previous.days ? safetyStreak : previous;
+    return { previous, longest };
+  }, [calendarData, currentYear, pastYearStatuses, safetyStreak, streakRules, profile]);
+
+  const autoBestRecord = useMemo(
+    () => streakManHours(streakRecord.longest.days, targetVars, streakRules.countNonWorking),
+    [streakRecord, targetVars, streakRules],
+  );
+  // `bestRecord` is the manual override for records set before the dashboard existed.
+  const effectiveBestRecord = Math.max(autoBestRecord, bestRecord);
+  const isNewStreakRecord = safetyStreak.days > 0
+    && safetyStreak.days > streakRecord.previous.days
+    && streakManHours(safetyStreak.days, targetVars, streakRules.countNonWorking) > bestRecord;
 
+  // Days per classification in the displayed month; SAFE always shows, others once they occur.
   const monthSummary = useMemo(() => {
-    if (!displayMonthData) return { safe: 0, near: 0, accident: 0 };
-    let safe = 0, near = 0, accident = 0;
-    for (const d of displayMonthData.days) {
-      if (d.status === 'safe') safe += 1;
-      if (d.status === 'near_miss') near += 1;
-      if (d.status === 'accident') accident += 1;
+    const counts: Record<string, number> = {};
+    for (const d of displayMonthData?.days ?? []) {
+      if (d.status && d.status !== 'non_working') counts[d.status] = (counts[d.status] ?? 0) + 1;
     }
-    return { safe, near, accident };
-  }, [displayMonthData]);
+    const known = viewClassifications.filter((c) => c.id === 'safe' || counts[c.id]);
+    const unknown = Object.keys(counts).filter((id) => !viewClassById[id]).map((id) => classificationOf(id, viewClassById));
+    return [...known, ...unknown].map((c) => ({ cls: c, count: counts[c.id] ?? 0 }));
+  }, [displayMonthData, viewClassifications, viewClassById]);
 
-  const firstDayOffset = useMemo(() => new Date(currentYear, displayMonth, 1).getDay(), [currentYear, displayMonth]);
-  const daysInMonth = useMemo(() => new Date(currentYear, displayMonth + 1, 0).getDate(), [currentYear, displayMonth]);
+  const firstDayOffset = useMemo(() => new Date(viewYear, displayMonth, 1).getDay(), [viewYear, displayMonth]);
+  const daysInMonth = useMemo(() => new Date(viewYear, displayMonth + 1, 0).getDate(), [viewYear, displayMonth]);
   const gridCells = useMemo(() => {
     const cells: Array<{ day: number | null }> = [];
     for (let i = 0; i < firstDayOffset; i++) cells.push({ day: null });
@@ -601,23 +1126,179 @@ export function SafetyDashboard() {
     return cells;
   }, [firstDayOffset, daysInMonth]);
 
-  const setDayStatus = (day: number, status: DayStatus) => {
-    setMonthlyData((prev) => {
-      const next = prev.map((mm) => ({ ...mm, days: mm.days.map((dd) => ({ ...dd })) }));
-      const month = next[displayMonth];
-      if (!month) return prev;
-      const target = month.days[day - 1];
-      if (!target) return prev;
-      target.status = status;
-      return next;
+  const shiftDisplayMonth = (delta: number) => {
+    const dt = new Date(viewYear, displayMonth + delta, 1);
+    setViewYear(dt.getFullYear());
+    setDisplayMonth(dt.getMonth());
+  };
+
+  const goToToday = () => {
+    const { day } = shiftClock(new Date(), shifts);
+    setViewYear(day.getFullYear());
+    setDisplayMonth(day.getMonth());
+  };
+
+  // Stored (manual / auto SAFE) status of the day open in the incident dialog.
+  const incidentDayStatus = useMemo(() => {
+    const dt = incidentDate ? fromISODate(incidentDate) : null;
+    if (!dt) return null;
+    const stored = archive
+      ? viewStoredCalendar(archive.areaData, archive.areas, activeView, viewClassById, viewYear)
+      : viewStoredCalendar(areaData, areas, activeView, classById, currentYear);
+    return stored[dt.getMonth()]?.days?.[dt.getDate() - 1]?.status ?? null;
+  }, [incidentDate, archive, areaData, areas, activeView, viewClassById, classById, viewYear, currentYear]);
+
+  const openDayIncidents = (day: number) => {
+    setIncidentDate(toISODate(new Date(viewYear, displayMonth, day)));
+  };
+
+  const saveDayIncidents = (dayIncidents: Incident[], status: DayStatus) => {
+    const dt = incidentDate ? fromISODate(incidentDate) : null;
+    // Closed years are read-only.
+    if (!dt || dt.getFullYear() < currentYear) return;
+    // Only the incidents the dialog showed (the active area's, or all in the plant view) are replaced.
+    const replace = (list: Incident[]) => {
+      const inView = new Set(incidentsInView(list, activeView).map((i) => i.id));
+      return [...list.filter((i) => i.date !== incidentDate || !inView.has(i.id)), ...dayIncidents];
+    };
+    setIncidentDate(null);
+    if (dt.getFullYear() === currentYear) {
+      setIncidents(replace);
+      setAreaData((prev) => withDayStatus(prev, activeView, dt.getMonth(), dt.getDate(), status));
+      setLastUpdateIso(new Date().toISOString());
+      return;
+    }
+    // A coming year: written straight to its planned calendar.
+    if (!archive || dt.getFullYear() !== viewYear) return;
+    const key = yearStorageKey(viewYear, profile);
+    const json = plannedYearJson({
+      ...archive,
+      incidents: replace(archive.incidents),
+      areaData: withDayStatus(archive.areaData, activeView, dt.getMonth(), dt.getDate(), status),
     });
+    try {
+      localStorage.setItem(key, json);
+    } catch (err) {
+      setSaveError(saveErrorMessage(err, json.length * 2));
+      return;
+    }
+    setStorageRevision((r) => r + 1);
+    announceLocalChange(key, json);
+    if (stateServer) {
+      pushRemoteState(stateServer, key, json, LIVE_CLIENT_ID).then(
+        () => setSyncState('synced'),
+        () => setSyncState('offline'),
+      );
+    }
+  };
+
+  // Removed areas take their calendar and incidents with them; new ones start with the
+  // past days already filled in by auto SAFE.
+  const saveAreas = (next: Area[]) => {
+    const keep = new Set(next.map((a) => a.id));
+    setAreaData((prev) => {
+      const out: AreaData = {};
+      for (const a of next) out[a.id] = prev[a.id] ?? applyAutoSafe(createYearData(currentYear), new Date(), currentYear, isWorkingDate, shifts);
+      return out;
+    });
+    setIncidents((prev) => prev.filter((i) => keep.has(i.areaId)));
+    setAreas(next);
+    setEditAreas(false);
+    setLastUpdateIso(new Date().toISOString());
+  };
+
+  // Back to viewer mode: editors close without saving and the layout locks.
+  const signOut = () => {
+    setCurrentUser(null);
+    credentialRef.current = null;
+    setSigningIn(false);
+    setEditAccounts(false);
+    setLayoutLocked(true);
+    setEditMetrics(false);
+    setEditTarget(false);
+    setEditTicker(false);
+    setEditPolicy(false);
+    setIncidentDate(null);
+    setEditHolidays(false);
+    setEditClassifications(false);
+    setEditAreas(false);
+    setEditProfiles(false);
+    setEditPosterTopPlaylist(false);
+    setEditPosterBottomPlaylist(false);
+    setPendingUpload(null);
+    setFramingTarget(null);
   };
 
-  const cycleDayStatus = (day: number) => {
-    const current = displayMonthData?.days?.[day - 1]?.status ?? null;
-    setDayStatus(day, nextDayStatus(current));
+  useIdleTimeout(!!currentUser, ADMIN_IDLE_MS, signOut);
+
+  // Accounts are shared by every screen and the server's copy wins. A server without one
+  // keeps this screen's accounts local until an admin shares them from the accounts dialog.
+  const loadRemoteAccounts = useCallback(() => {
+    if (!stateServer) return;
+    fetchRemoteAccounts(stateServer).then((remote) => {
+      if (remote) {
+        setAccountStore(remote);
+        writeLocalAccounts(remote);
+      }
+      setRemoteAccounts(remote ? 'stored' : 'none');
+    }, () => setRemoteAccounts('unknown'));
+  }, [stateServer]);
+
+  useEffect(loadRemoteAccounts, [loadRemoteAccounts]);
+
+  // The single admin PIN of earlier versions becomes this screen's first admin account.
+  useEffect(() => {
+    let cancelled = false;
+    adoptLegacyAdminPin().then(
+      (adopted) => {
+        if (!cancelled && adopted) setAccountStore((cur) => (cur.accounts.length ? cur : adopted));
+      },
+      () => {},
+    );
+    return () => { cancelled = true; };
+  }, []);
+
+  // Answers with a problem to show, or null once saved (and pushed, with a server).
+  const saveAccounts = async (next: AccountStore): Promise<string | null> => {
+    const store = { ...next, version: accountStore.version + 1 };
+    if (stateServer) {
+      if (remoteAccounts === 'unknown') {
+        loadRemoteAccounts();
+        return 'ยังโหลดบัญชีผู้ใช้จากเซิร์ฟเวอร์ไม่ได้ • ลองใหม่ภายหลัง';
+      }
+      try {
+        await pushRemoteAccounts(stateServer, store, LIVE_CLIENT_ID, credentialRef.current);
+      } catch (err) {
+        const status = err instanceof StateServerError ? err.status : 0;
+        if (status === 403 || status === 409) loadRemoteAccounts();
+        if (status === 409) return 'บัญชีผู้ใช้ถูกแก้ไขจากจออื่นระหว่างนี้ • ปิดแล้วเปิดใหม่เพื่อแก้จากรายการล่าสุด';
+        if (status === 403) return 'เซิร์ฟเวอร์ไม่รับการแก้ไข • ต้องเข้าสู่ระบบด้วยบัญชี Admin ของเซิร์ฟเวอร์';
+        return 'บันทึกบัญชีผู้ใช้ขึ้นเซิร์ฟเวอร์ไม่ได้ • ลองใหม่ภายหลัง';
+      }
+      setRemoteAccounts('stored');
+    }
+    setAccountStore(store);
+    writeLocalAccounts(store);
+    announceLocalChange(ACCOUNTS_KEY, serializeAccounts(store));
+    return null;
   };
 
+  // Only ever sent by a screen that saved the list, or by the server itself.
+  useEffect(() => subscribeLiveUpdates(ACCOUNTS_KEY, stateServer, (json) => {
+    const next = parseAccounts(json);
+    setAccountStore(next);
+    writeLocalAccounts(next);
+    setRemoteAccounts('stored');
+  }), [stateServer]);
+
+  // Removing the signed-in account or changing its role elsewhere applies right away.
+  useEffect(() => {
+    if (!currentUser) return;
+    const fresh = accounts.find((a) => a.id === currentUser.id);
+    if (!fresh || fresh.role !== currentUser.role) signOut();
+    if (fresh && fresh !== currentUser) setCurrentUser(fresh);
+  }, [accounts, currentUser]);
+
   const resetLayout = () => {
     try {
       localStorage.removeItem('react-resizable-panels:nhk-safety-layout-v2-structure');
@@ -626,54 +1307,92 @@ export function SafetyDashboard() {
   };
 
   // ---- Upload helpers
-  const readFileToDataUrl = (file: File, cb: (url: string) => void) => {
-    const reader = new FileReader();
-    reader.onload = () => cb(String(reader.result));
-    reader.readAsDataURL(file);
+  const storeUpload = (file: File, apply: (set: PageSet) => void, applyVideo?: (clip: VideoClip) => void) => {
+    if (isVideoFile(file) && !applyVideo) return;
+    setPendingUpload({ file, apply, applyVideo });
+  };
+
+  const storePages = async (pages: Array<{ blob: Blob; name: string }>, flipSeconds: number) => {
+    const pending = pendingUpload;
+    setPendingUpload(null);
+    if (!pending) return;
+    try {
+      const refs: string[] = [];
+      for (const p of pages) refs.push(await putMedia(p.blob, p.name, stateServer));
+      setSaveError(null);
+      pending.apply({ pages: refs, flipSeconds });
+    } catch {
+      setSaveError(`บันทึกรูป "${pending.file.name}" ไม่สำเร็จ: พื้นที่จัดเก็บของเบราว์เซอร์เต็มหรือถูกปิดไว้`);
+    }
+    refreshStorageUsage();
+  };
+
+  const savePendingVideo = async (video: File, poster: Blob | null) => {
+    const pending = pendingUpload;
+    setPendingUpload(null);
+    if (!pending?.applyVideo) return;
+    try {
+      const posterRef = poster ? await putMedia(poster, `${video.name}-poster`, stateServer) : null;
+      const videoRef = await putMedia(video, video.name, stateServer);
+      setSaveError(null);
+      pending.applyVideo({ video: videoRef, poster: posterRef });
+    } catch {
+      setSaveError(`บันทึกวิดีโอ "${video.name}" ไม่สำเร็จ: พื้นที่จัดเก็บของเบราว์เซอร์เต็มหรือถูกปิดไว้`);
+    }
+    refreshStorageUsage();
+  };
+
+  const savePendingUpload = (blob: Blob, name: string) => {
+    storePages([{ blob, name }], DEFAULT_FLIP_SECONDS);
+  };
+
+  const savePendingPdf = (pages: Blob[], flipSeconds: number) => {
+    const base = pendingUpload?.file.name.replace(/\.pdf$/i, '') || 'document';
+    storePages(pages.map((blob, i) => ({ blob, name: `${base}-p${i + 1}` })), flipSeconds);
   };
 
   const onPosterTopSelected = (file?: File | null) => {
     if (!file) return;
-    readFileToDataUrl(file, (url) => {
-      setPosterTop(url);
-      setPosterTopZoom(1);
+    const show = (content: PosterContent) => {
+      setPosterTopSlides((p) => [...p, createSlide(content)]);
+      setPosterTopIndex(posterTopShown.length);
       setLastUpdateIso(new Date().toISOString());
-    });
+    };
+    storeUpload(file, show, show);
   };
 
   const onPosterBottomSelected = (file?: File | null) => {
     if (!file) return;
-    readFileToDataUrl(file, (url) => {
-      setPosterBottom(url);
-      setPosterBottomZoom(1);
+    const show = (content: PosterContent) => {
+      setPosterBottomSlides((p) => [...p, createSlide(content)]);
+      setPosterBottomIndex(posterBottomShown.length);
       setLastUpdateIso(new Date().toISOString());
-    });
+    };
+    storeUpload(file, show, show);
   };
 
-  const onPolicyReplaceSelected = (file?: File | null) => {
+  const onPolicyAddSelected = (file?: File | null) => {
     if (!file) return;
-    readFileToDataUrl(file, (url) => {
-      setPolicyImages((p) => {
-        const next = [...p];
-        next[0] = url;
-        return next.slice(0, 2);
-      });
-      setPolicyZoom(1);
+    storeUpload(file, (set) => {
+      setPolicyImages((p) => [...p, createPolicyImage(set)]);
       setLastUpdateIso(new Date().toISOString());
     });
   };
 
-  const onPolicyAddSelected = (file?: File | null) => {
-    if (!file) return;
-    readFileToDataUrl(file, (url) => {
-      setPolicyImages((p) => {
-        const next = [...p];
-        if (next.length < 2) next.push(url);
-        else next[1] = url;
-        return next.slice(0, 2);
-      });
-      setPolicyZoom(1);
-      setLastUpdateIso(new Date().toISOString());
+  const framePosterSlide = (
+    slide: PosterSlide,
+    setSlides: (fn: (p: PosterSlide[]) => PosterSlide[]) => void,
+    frame: HTMLElement | null,
+  ) => {
+    if (isVideoClip(slide.content)) return;
+    setFramingTarget({
+      set: slide.content,
+      aspect: frameAspect(frame),
+      zoom: slide.zoom,
+      apply: (framing) => {
+        setSlides((p) => p.map((s) => (s.id === slide.id && !isVideoClip(s.content) ? { ...s, content: withFraming(s.content, framing) } : s)));
+        setLastUpdateIso(new Date().toISOString());
+      },
     });
   };
 
@@ -703,42 +1422,58 @@ export function SafetyDashboard() {
 
   const openTargetEditor = useCallback(() => {
     setTargetVarsDraft({ ...targetVars });
+    setTargetAutoDraft({ ...targetAuto });
     setTargetFormulasDraft({ ...targetFormulas });
     setBestRecordDraft(String(bestRecord));
-    setLossTimeAccidentsDraft(String(lossTimeAccidents));
+    setRateBaseDraft(rateBase);
     setEditTarget(true);
-  }, [targetVars, targetFormulas, bestRecord, lossTimeAccidents]);
+  }, [targetVars, targetAuto, targetFormulas, bestRecord, rateBase]);
 
   const saveTargetEditor = useCallback(() => {
     setTargetVars({ ...targetVarsDraft });
+    setTargetAuto({ ...targetAutoDraft });
     setTargetFormulas({ ...targetFormulasDraft });
     setBestRecord(Number(bestRecordDraft) || 0);
-    setLossTimeAccidents(Number(lossTimeAccidentsDraft) || 0);
+    setRateBase(rateBaseDraft);
     setEditTarget(false);
     setLastUpdateIso(new Date().toISOString());
-  }, [targetVarsDraft, targetFormulasDraft, bestRecordDraft, lossTimeAccidentsDraft]);
-
-  const openTickerEditor = useCallback(() => {
-    setTickerDraft(announcements.map((a) => a.text).join('\n'));
-    setEditTicker(true);
-  }, [announcements]);
-
-  const saveTickerEditor = useCallback(() => {
-    const lines = tickerDraft
-      .split('\n')
-      .map((s) => s.trim())
-      .filter(Boolean);
-    const next = lines.length
-      ? lines.map((text, idx) => ({ id: String(idx + 1), text }))
-      : DEFAULT_ANNOUNCEMENTS;
-    setAnnouncements(next);
-    setEditTicker(false);
-    setLastUpdateIso(new Date().toISOString());
-  }, [tickerDraft]);
+  }, [targetVarsDraft, targetAutoDraft, targetFormulasDraft, bestRecordDraft, rateBaseDraft]);
 
   // ---- Derived target numbers
-  const totalManHours = useMemo(() => safeEval(targetFormulas.totalExpr, targetVars), [targetFormulas, targetVars]);
-  const toDateManHours = useMemo(() => safeEval(targetFormulas.toDateExpr, targetVars), [targetFormulas, targetVars]);
+  // Working days counted from the calendar (work week + holidays) for the live year.
+  const derivedWorkingDays = useMemo(
+    () => autoWorkingDays(currentYear, fromISODate(todayIso) ?? new Date(), workWeek, dayOffMap),
+    [currentYear, todayIso, workWeek, dayOffMap],
+  );
+  const effectiveTargetVars = useMemo(
+    () => applyTargetAuto(targetVars, targetAuto, derivedWorkingDays),
+    [targetVars, targetAuto, derivedWorkingDays],
+  );
+  const effectiveTargetVarsDraft = useMemo(
+    () => applyTargetAuto(targetVarsDraft, targetAutoDraft, derivedWorkingDays),
+    [targetVarsDraft, targetAutoDraft, derivedWorkingDays],
+  );
+
+  const totalManHours = useMemo(() => safeEval(targetFormulas.totalExpr, effectiveTargetVars), [targetFormulas, effectiveTargetVars]);
+  const toDateManHours = useMemo(() => safeEval(targetFormulas.toDateExpr, effectiveTargetVars), [targetFormulas, effectiveTargetVars]);
+  const injuryRates = useMemo(
+    () => computeInjuryRates(incidents, toDateManHours, rateBase, classById),
+    [incidents, toDateManHours, rateBase, classById],
+  );
+
+  const metricValue = (m: SafetyMetric) => {
+    if (m.source === 'ifr') return formatRate(injuryRates.ifr);
+    if (m.source === 'isr') return formatRate(injuryRates.isr);
+    return m.value;
+  };
+
+  const metricFormula = (m: SafetyMetric) => {
+    const base = formatNumber(rateBase);
+    const hours = formatNumber(toDateManHours);
+    if (m.source === 'ifr') return `IFR = ${injuryRates.lostTimeInjuries} lost-time injuries × ${base} / ${hours} man-hours`;
+    if (m.source === 'isr') return `ISR = ${injuryRates.lostDays} lost days × ${base} / ${hours} man-hours`;
+    return undefined;
+  };
 
   const lastUpdateLabel = useMemo(() => {
     try {
@@ -750,23 +1485,25 @@ export function SafetyDashboard() {
   }, [lastUpdateIso]);
 
   const tickerText = useMemo(() => {
-    const txt = announcements.map((a) => a.text).filter(Boolean).join('   •   ');
+    const txt = announcementsShown.map((a) => a.text).filter(Boolean).join('   •   ');
     return txt || 'No announcements.';
-  }, [announcements]);
+  }, [announcementsShown]);
 
   // ticker speed based on length (keep calm)
   const tickerSeconds = useMemo(() => clamp(Math.round(tickerText.length / 7), 18, 48), [tickerText]);
 
+  const localStorageShare = storageUsage.local / LOCAL_STORAGE_QUOTA_BYTES;
+
   return (
     <div
       className="h-screen max-h-screen max-w-[100vw] overflow-hidden flex flex-col bg-[radial-gradient(circle_at_top_left,_#dbeafe_0%,_#f0f9ff_30%,_#ffffff_55%,_#fefce8_80%,_#ecfdf5_100%)] text-slate-900"
       style={{
         fontSize: 'var(--font-size)',
-        ['--color-firstAid' as any]: '#16a34a', // green
-        ['--color-nonAbsent' as any]: '#2563eb', // blue
-        ['--color-absent' as any]: '#f59e0b', // orange
-        ['--color-fire' as any]: '#ef4444', // red
-      }}
+        '--color-firstAid': '#16a34a', // green
+        '--color-nonAbsent': '#2563eb', // blue
+        '--color-absent': '#f59e0b', // orange
+        '--color-fire': '#ef4444', // red
+      } as React.CSSProperties}
     >
       <style>
         {`
@@ -784,6 +1521,39 @@ export function SafetyDashboard() {
             <img src={nhkLogo} alt="NHK SPRING (THAILAND)" className="h-9 w-auto" />
           </div>
           <div className="text-2xl font-extrabold">Safety Dashboard</div>
+          {allowed('layout') ? (
+            <button
+              type="button"
+              onClick={() => setEditProfiles(true)}
+              className="px-3 py-1.5 rounded-2xl border border-slate-200 bg-white text-sm font-extrabold text-slate-600 hover:bg-slate-50 inline-flex items-center gap-2"
+              title="Dashboard profiles"
+            >
+              <MonitorSmartphone className="h-4 w-4" />
+              {profile === DEFAULT_PROFILE ? 'Profiles' : profile}
+            </button>
+          ) : null}
+          {stateServer ? (
+            <div
+              className={`px-3 py-1.5 rounded-2xl border text-sm font-extrabold inline-flex items-center gap-2 ${syncState === 'offline' ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-emerald-200 bg-emerald-50 text-emerald-700'}`}
+              title={syncState === 'offline' ? `ติดต่อ ${stateServer} ไม่ได้ • บันทึกไว้ในเครื่องนี้ก่อน` : `ข้อมูลซิงก์กับ ${stateServer}`}
+            >
+              {syncState === 'offline' ? <CloudOff className="h-4 w-4" /> : <Cloud className="h-4 w-4" />}
+              {syncState === 'offline' ? 'Offline' : 'Server'}
+            </div>
+          ) : null}
+          <div
+            className={`px-3 py-1.5 rounded-2xl border text-sm font-extrabold inline-flex items-center gap-2 ${
+              saveError
+                ? 'border-rose-300 bg-rose-50 text-rose-700'
+                : localStorageShare > 0.8
+                  ? 'border-amber-300 bg-amber-50 text-amber-800'
+                  : 'border-slate-200 bg-white text-slate-600'
+            }`}
+            title={`ข้อมูลแดชบอร์ด ${formatBytes(storageUsage.local)} จากประมาณ ${formatBytes(LOCAL_STORAGE_QUOTA_BYTES)}${storageUsage.media ? ` • รูปภาพ ${storageUsage.media.count} ไฟล์ ${formatBytes(storageUsage.media.bytes)}` : ''}`}
+          >
+            <HardDrive className="h-4 w-4" />
+            {Math.round(localStorageShare * 100)}%
+          </div>
         </div>
 
         <div className="flex-1 flex justify-center">
@@ -791,53 +1561,103 @@ export function SafetyDashboard() {
         </div>
 
         <div className="flex items-center gap-3 shrink-0">
-          <div className="flex items-center gap-1 rounded-2xl border border-slate-200 bg-white px-3 py-2 shadow-sm">
-            <button
-              type="button"
-              onClick={() => setUiScale((s) => clamp(Number((s - 0.05).toFixed(2)), 0.8, 1.4))}
-              className="h-8 w-10 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50"
-              aria-label="Decrease font size"
-              title="ลดขนาดตัวอักษร"
-            >
-              A-
-            </button>
-            <div className="w-14 text-center text-xs font-extrabold text-slate-600">{Math.round(uiScale * 100)}%</div>
-            <button
-              type="button"
-              onClick={() => setUiScale((s) => clamp(Number((s + 0.05).toFixed(2)), 0.8, 1.4))}
-              className="h-8 w-10 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50"
-              aria-label="Increase font size"
-              title="เพิ่มขนาดตัวอักษร"
-            >
-              A+
-            </button>
+          {allowed('layout') ? (
+            <>
+              <div className="flex items-center gap-1 rounded-2xl border border-slate-200 bg-white px-3 py-2 shadow-sm">
+                <button
+                  type="button"
+                  onClick={() => setUiScale((s) => clamp(Number((s - 0.05).toFixed(2)), 0.8, 1.4))}
+                  className="h-8 w-10 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50"
+                  aria-label="Decrease font size"
+                  title="ลดขนาดตัวอักษร"
+                >
+                  A-
+                </button>
+                <div className="w-14 text-center text-xs font-extrabold text-slate-600">{Math.round(uiScale * 100)}%</div>
+                <button
+                  type="button"
+                  onClick={() => setUiScale((s) => clamp(Number((s + 0.05).toFixed(2)), 0.8, 1.4))}
+                  className="h-8 w-10 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50"
+                  aria-label="Increase font size"
+                  title="เพิ่มขนาดตัวอักษร"
+                >
+                  A+
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setUiScale(1)}
+                  className="h-8 px-3 rounded-xl border border-slate-200 bg-white text-xs font-extrabold hover:bg-slate-50"
+                  aria-label="Reset font size"
+                  title="รีเซ็ตขนาดตัวอักษร"
+                >
+                  Reset
+                </button>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setLayoutLocked((v) => !v)}
+                className={`px-4 py-2 rounded-2xl border font-extrabold flex items-center gap-2 ${layoutLocked ? 'border-slate-200 bg-white hover:bg-slate-50' : 'border-sky-200 bg-sky-50 hover:bg-sky-100'}`}
+                title={layoutLocked ? 'Unlock layout to resize panels' : 'Lock layout'}
+              >
+                {layoutLocked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+                {layoutLocked ? 'LOCKED' : 'UNLOCKED'}
+              </button>
+
+              <button type="button" onClick={resetLayout} className="px-4 py-2 rounded-2xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50" title="Reset layout">
+                Reset Layout
+              </button>
+            </>
+          ) : null}
+
+          {currentUser ? (
+            <>
+              {allowed('accounts') ? (
+                <button
+                  type="button"
+                  onClick={() => setEditAccounts(true)}
+                  className="p-2.5 rounded-2xl border border-slate-200 bg-white hover:bg-slate-50"
+                  title="บัญชีผู้ใช้"
+                  aria-label="User accounts"
+                >
+                  <Users className="h-4 w-4" />
+                </button>
+              ) : null}
+              <button
+                type="button"
+                onClick={signOut}
+                className="px-4 py-2 rounded-2xl border border-emerald-200 bg-emerald-50 text-emerald-800 font-extrabold flex items-center gap-2 hover:bg-emerald-100"
+                title={`ออกจากระบบ (ออกเองเมื่อไม่มีการใช้งาน ${ADMIN_IDLE_MS / 60000} นาที)`}
+              >
+                <ShieldCheck className="h-4 w-4" />
+                <span className="max-w-[10rem] truncate">{currentUser.name || 'ไม่มีชื่อ'}</span>
+                <span className="text-xs font-bold text-emerald-700">{roleLabel(currentUser.role)}</span>
+              </button>
+            </>
+          ) : (
             <button
               type="button"
-              onClick={() => setUiScale(1)}
-              className="h-8 px-3 rounded-xl border border-slate-200 bg-white text-xs font-extrabold hover:bg-slate-50"
-              aria-label="Reset font size"
-              title="รีเซ็ตขนาดตัวอักษร"
+              onClick={() => {
+                setSigningIn(true);
+                if (!accountsKnown) loadRemoteAccounts();
+              }}
+              className="p-2.5 rounded-2xl border border-slate-200 bg-white/70 text-slate-400 hover:bg-white hover:text-slate-600"
+              title="เข้าสู่ระบบเพื่อแก้ไข (ใส่ PIN)"
+              aria-label="Sign in"
             >
-              Reset
+              <Lock className="h-4 w-4" />
             </button>
-          </div>
-
-          <button
-            type="button"
-            onClick={() => setLayoutLocked((v) => !v)}
-            className={`px-4 py-2 rounded-2xl border font-extrabold flex items-center gap-2 ${layoutLocked ? 'border-slate-200 bg-white hover:bg-slate-50' : 'border-sky-200 bg-sky-50 hover:bg-sky-100'}`}
-            title={layoutLocked ? 'Unlock layout to resize panels' : 'Lock layout'}
-          >
-            {layoutLocked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
-            {layoutLocked ? 'LOCKED' : 'UNLOCKED'}
-          </button>
-
-          <button type="button" onClick={resetLayout} className="px-4 py-2 rounded-2xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50" title="Reset layout">
-            Reset Layout
-          </button>
+          )}
         </div>
       </header>
 
+      {saveError ? (
+        <div className="mx-6 mt-2 rounded-2xl border border-rose-300 bg-rose-50 px-4 py-2 text-sm font-extrabold text-rose-700 flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span className="min-w-0 truncate">{saveError} • การแก้ไขล่าสุดยังไม่ถูกบันทึกในเครื่องนี้</span>
+        </div>
+      ) : null}
+
       {/* MAIN (leave space for ticker) */}
       <main className="px-4 pt-2 pb-[max(18px,6vh)] flex-1 min-h-0 overflow-hidden">
         <div className="h-full min-h-0 rounded-3xl overflow-hidden">
@@ -859,46 +1679,55 @@ export function SafetyDashboard() {
                           icon={<ImageIcon className="h-5 w-5 text-amber-700" />}
                           tone="amber"
                           panelScale={panelScale}
-                          actions={
+                          actions={allowed('posters') ? (
                             <>
-                              <input ref={posterTopInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => onPosterTopSelected(e.target.files?.[0])} />
+                              <input ref={posterTopInputRef} type="file" accept="image/*,video/mp4,video/webm,application/pdf,.pdf" className="hidden" onChange={(e) => { onPosterTopSelected(e.target.files?.[0]); e.target.value = ''; }} />
                               <button onClick={() => posterTopInputRef.current?.click()} className="p-2 rounded-lg hover:bg-amber-50" title="Upload">
                                 <Upload className="h-4 w-4 text-amber-700" />
                               </button>
-                              {posterTop ? (
+                              <button onClick={() => setEditPosterTopPlaylist(true)} className="p-2 rounded-lg hover:bg-amber-50" title="Playlist">
+                                <ListOrdered className="h-4 w-4 text-amber-700" />
+                              </button>
+                              {posterTopSlide ? (
                                 <>
-                                  <button onClick={() => setPosterTopZoom((z) => clamp(z - 0.1, 0.5, 2.5))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom out">
+                                  <button onClick={() => setPosterTopSlides((p) => zoomSlide(p, posterTopSlide.id, (z) => z - 0.1))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom out">
                                     <span className="text-amber-800 font-bold">−</span>
                                   </button>
-                                  <button onClick={() => setPosterTopZoom(1)} className="px-2 py-1.5 rounded-lg text-xs font-bold border border-amber-200 bg-white hover:bg-amber-50" title="Reset size">
-                                    {Math.round(posterTopZoom * 100)}%
+                                  <button onClick={() => setPosterTopSlides((p) => zoomSlide(p, posterTopSlide.id, () => 1))} className="px-2 py-1.5 rounded-lg text-xs font-bold border border-amber-200 bg-white hover:bg-amber-50" title="Reset size">
+                                    {Math.round(posterTopSlide.zoom * 100)}%
                                   </button>
-                                  <button onClick={() => setPosterTopZoom((z) => clamp(z + 0.1, 0.5, 2.5))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom in">
+                                  <button onClick={() => setPosterTopSlides((p) => zoomSlide(p, posterTopSlide.id, (z) => z + 0.1))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom in">
                                     <span className="text-amber-800 font-bold">+</span>
                                   </button>
-                                  <button onClick={() => setPosterTop(null)} className="p-2 rounded-lg hover:bg-rose-50" title="Remove">
+                                  {isVideoClip(posterTopSlide.content) ? null : (
+                                    <button onClick={() => framePosterSlide(posterTopSlide, setPosterTopSlides, posterTopFrameRef.current)} className="p-2 rounded-lg hover:bg-amber-50" title="Crop & position">
+                                      <Crop className="h-4 w-4 text-amber-700" />
+                                    </button>
+                                  )}
+                                  <button onClick={() => setPosterTopSlides((p) => p.filter((s) => s.id !== posterTopSlide.id))} className="p-2 rounded-lg hover:bg-rose-50" title="Remove this slide">
                                     <Trash2 className="h-4 w-4 text-rose-600" />
                                   </button>
                                 </>
                               ) : null}
                             </>
-                          }
+                          ) : undefined}
                         >
-                          {!posterTop ? (
+                          {!posterTopSlides.length ? (
                             <div className="h-full flex flex-col items-center justify-center text-center gap-3 rounded-2xl border-2 border-dashed border-slate-200 bg-slate-50 p-6">
                               <Upload className="h-8 w-8 text-slate-500" />
                               <div className="font-bold text-slate-700">Upload Poster</div>
-                              <div className="text-sm text-slate-500">รองรับรูปแนวตั้ง/แนวนอน</div>
+                              <div className="text-sm text-slate-500">รองรับรูปแนวตั้ง/แนวนอน ไฟล์ PDF และวิดีโอ MP4</div>
+                            </div>
+                          ) : !posterTopSlide ? (
+                            <div className="h-full flex flex-col items-center justify-center text-center gap-3 rounded-2xl border-2 border-dashed border-slate-200 bg-slate-50 p-6">
+                              <CalendarClock className="h-8 w-8 text-slate-500" />
+                              <div className="font-bold text-slate-700">ไม่มีสไลด์ที่ถึงเวลาแสดง</div>
+                              <div className="text-sm text-slate-500">ตั้งช่วงวัน/เวลาแสดงได้ที่ปุ่ม Playlist</div>
                             </div>
                           ) : (
                             <div className="h-full flex flex-col min-h-0">
-                              <div className="w-full flex-1 min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center relative">
-                                <img
-                                  src={posterTop}
-                                  alt="Poster"
-                                  className="max-h-full max-w-full object-contain select-none"
-                                  style={{ transform: `scale(${posterTopZoom})`, transformOrigin: 'center center' }}
-                                />
+                              <div ref={posterTopFrameRef} className="w-full flex-1 min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center relative">
+                                <PosterSlideshow slides={posterTopShown} index={posterTopCurrent} onIndexChange={setPosterTopIndex} server={stateServer} />
                               </div>
                             </div>
                           )}
@@ -919,46 +1748,55 @@ export function SafetyDashboard() {
                           icon={<ImageIcon className="h-5 w-5 text-amber-700" />}
                           tone="amber"
                           panelScale={panelScale}
-                          actions={
+                          actions={allowed('posters') ? (
                             <>
-                              <input ref={posterBottomInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => onPosterBottomSelected(e.target.files?.[0])} />
+                              <input ref={posterBottomInputRef} type="file" accept="image/*,video/mp4,video/webm,application/pdf,.pdf" className="hidden" onChange={(e) => { onPosterBottomSelected(e.target.files?.[0]); e.target.value = ''; }} />
                               <button onClick={() => posterBottomInputRef.current?.click()} className="p-2 rounded-lg hover:bg-amber-50" title="Upload">
                                 <Upload className="h-4 w-4 text-amber-700" />
                               </button>
-                              {posterBottom ? (
+                              <button onClick={() => setEditPosterBottomPlaylist(true)} className="p-2 rounded-lg hover:bg-amber-50" title="Playlist">
+                                <ListOrdered className="h-4 w-4 text-amber-700" />
+                              </button>
+                              {posterBottomSlide ? (
                                 <>
-                                  <button onClick={() => setPosterBottomZoom((z) => clamp(z - 0.1, 0.5, 2.5))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom out">
+                                  <button onClick={() => setPosterBottomSlides((p) => zoomSlide(p, posterBottomSlide.id, (z) => z - 0.1))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom out">
                                     <span className="text-amber-800 font-bold">−</span>
                                   </button>
-                                  <button onClick={() => setPosterBottomZoom(1)} className="px-2 py-1.5 rounded-lg text-xs font-bold border border-amber-200 bg-white hover:bg-amber-50" title="Reset size">
-                                    {Math.round(posterBottomZoom * 100)}%
+                                  <button onClick={() => setPosterBottomSlides((p) => zoomSlide(p, posterBottomSlide.id, () => 1))} className="px-2 py-1.5 rounded-lg text-xs font-bold border border-amber-200 bg-white hover:bg-amber-50" title="Reset size">
+                                    {Math.round(posterBottomSlide.zoom * 100)}%
                                   </button>
-                                  <button onClick={() => setPosterBottomZoom((z) => clamp(z + 0.1, 0.5, 2.5))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom in">
+                                  <button onClick={() => setPosterBottomSlides((p) => zoomSlide(p, posterBottomSlide.id, (z) => z + 0.1))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-amber-200" title="Zoom in">
                                     <span className="text-amber-800 font-bold">+</span>
                                   </button>
-                                  <button onClick={() => setPosterBottom(null)} className="p-2 rounded-lg hover:bg-rose-50" title="Remove">
+                                  {isVideoClip(posterBottomSlide.content) ? null : (
+                                    <button onClick={() => framePosterSlide(posterBottomSlide, setPosterBottomSlides, posterBottomFrameRef.current)} className="p-2 rounded-lg hover:bg-amber-50" title="Crop & position">
+                                      <Crop className="h-4 w-4 text-amber-700" />
+                                    </button>
+                                  )}
+                                  <button onClick={() => setPosterBottomSlides((p) => p.filter((s) => s.id !== posterBottomSlide.id))} className="p-2 rounded-lg hover:bg-rose-50" title="Remove this slide">
                                     <Trash2 className="h-4 w-4 text-rose-600" />
                                   </button>
                                 </>
                               ) : null}
                             </>
-                          }
+                          ) : undefined}
                         >
-                          {!posterBottom ? (
+                          {!posterBottomSlides.length ? (
                             <div className="h-full flex flex-col items-center justify-center text-center gap-3 rounded-2xl border-2 border-dashed border-slate-200 bg-slate-50 p-6">
                               <Upload className="h-8 w-8 text-slate-500" />
                               <div className="font-bold text-slate-700">Upload Poster</div>
-                              <div className="text-sm text-slate-500">แนะนำอัตราส่วน A4 / แนวตั้ง</div>
+                              <div className="text-sm text-slate-500">แนะนำอัตราส่วน A4 / แนวตั้ง • รองรับไฟล์ PDF และวิดีโอ MP4</div>
+                            </div>
+                          ) : !posterBottomSlide ? (
+                            <div className="h-full flex flex-col items-center justify-center text-center gap-3 rounded-2xl border-2 border-dashed border-slate-200 bg-slate-50 p-6">
+                              <CalendarClock className="h-8 w-8 text-slate-500" />
+                              <div className="font-bold text-slate-700">ไม่มีสไลด์ที่ถึงเวลาแสดง</div>
+                              <div className="text-sm text-slate-500">ตั้งช่วงวัน/เวลาแสดงได้ที่ปุ่ม Playlist</div>
                             </div>
                           ) : (
                             <div className="h-full flex flex-col min-h-0">
-                              <div className="w-full flex-1 min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center relative">
-                                <img
-                                  src={posterBottom}
-                                  alt="Poster"
-                                  className="max-h-full max-w-full object-contain select-none"
-                                  style={{ transform: `scale(${posterBottomZoom})`, transformOrigin: 'center center' }}
-                                />
+                              <div ref={posterBottomFrameRef} className="w-full flex-1 min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center relative">
+                                <PosterSlideshow slides={posterBottomShown} index={posterBottomCurrent} onIndexChange={setPosterBottomIndex} server={stateServer} />
                               </div>
                             </div>
                           )}
@@ -984,31 +1822,16 @@ export function SafetyDashboard() {
                           icon={<Shield className="h-5 w-5 text-sky-700" />}
                           tone="sky"
                           panelScale={panelScale}
-                          actions={
+                          actions={allowed('posters') ? (
                             <>
-                              <input ref={policyReplaceInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => onPolicyReplaceSelected(e.target.files?.[0])} />
-                              <input ref={policyAddInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => onPolicyAddSelected(e.target.files?.[0])} />
+                              <input ref={policyAddInputRef} type="file" accept="image/*,application/pdf,.pdf" className="hidden" onChange={(e) => { onPolicyAddSelected(e.target.files?.[0]); e.target.value = ''; }} />
 
-                              <button onClick={() => policyReplaceInputRef.current?.click()} className="p-2 rounded-lg hover:bg-white/70" title="Replace image">
+                              <button onClick={() => policyAddInputRef.current?.click()} className="p-2 rounded-lg hover:bg-white/70" title="Add image / PDF">
                                 <Upload className="h-4 w-4 text-slate-600" />
                               </button>
-                              <button
-                                onClick={() => policyAddInputRef.current?.click()}
-                                disabled={policyImages.length >= 2}
-                                className="p-2 rounded-lg hover:bg-white/70 disabled:opacity-40"
-                                title="Add second image (max 2)"
-                              >
-                                <Plus className="h-4 w-4 text-slate-600" />
+                              <button onClick={() => setEditPolicy(true)} className="p-2 rounded-lg hover:bg-white/70" title="Manage documents">
+                                <ListOrdered className="h-4 w-4 text-slate-600" />
                               </button>
-                              {policyImages.length > 1 ? (
-                                <button
-                                  onClick={() => setPolicyImages((p) => p.slice(0, 1))}
-                                  className="p-2 rounded-lg hover:bg-rose-50"
-                                  title="Remove second image"
-                                >
-                                  <Trash2 className="h-4 w-4 text-rose-600" />
-                                </button>
-                              ) : null}
                               <button onClick={() => setPolicyZoom((z) => clamp(z - 0.1, 0.5, 2.5))} className="p-2 rounded-lg hover:bg-white/70" title="Zoom out">
                                 <span className="text-slate-700 font-bold">−</span>
                               </button>
@@ -1019,28 +1842,15 @@ export function SafetyDashboard() {
                                 <span className="text-slate-700 font-bold">+</span>
                               </button>
                             </>
-                          }
+                          ) : undefined}
                         >
-                          <div className="h-full min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center">
-                            {policyImages.length <= 1 ? (
-                              <img
-                                src={policyImages[0]}
-                                alt="Safety Policy"
-                                className="max-h-full max-w-full object-contain select-none"
-                                style={{ transform: `scale(${policyZoom})`, transformOrigin: 'center center' }}
-                              />
+                          <div ref={policyFrameRef} className="h-full min-h-0 rounded-2xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center">
+                            {policyShown.length ? (
+                              <PolicyBoard images={policyShown} layout={policyLayout} pageSeconds={policyPageSeconds} zoom={policyZoom} server={stateServer} />
                             ) : (
-                              <div className="h-full w-full grid grid-cols-2 gap-2 p-2">
-                                {policyImages.slice(0, 2).map((src, idx) => (
-                                  <div key={idx} className="rounded-xl border border-slate-200 bg-white overflow-hidden flex items-center justify-center">
-                                    <img
-                                      src={src}
-                                      alt={`Policy ${idx + 1}`}
-                                      className="max-h-full max-w-full object-contain select-none"
-                                      style={{ transform: `scale(${policyZoom})`, transformOrigin: 'center center' }}
-                                    />
-                                  </div>
-                                ))}
+                              <div className="flex flex-col items-center justify-center text-center gap-2 p-4">
+                                <CalendarClock className="h-7 w-7 text-slate-400" />
+                                <div className="font-bold text-slate-600">ไม่มีเอกสารที่ถึงเวลาแสดง</div>
                               </div>
                             )}
                           </div>
@@ -1069,12 +1879,16 @@ export function SafetyDashboard() {
                             panelScale={panelScale}
                             actions={
                               <>
-                                <button type="button" onClick={openTargetEditor} className="p-2 rounded-lg hover:bg-white/70" title="Edit Target / Formula" aria-label="Edit Target / Formula">
-                                  <Edit className="h-4 w-4 text-slate-600" />
-                                </button>
-                                <button type="button" onClick={openMetricsEditor} className="p-2 rounded-lg hover:bg-white/70" title="Edit Metrics" aria-label="Edit Metrics">
-                                  <Activity className="h-4 w-4 text-slate-600" />
-                                </button>
+                                {allowed('targets') ? (
+                                  <button type="button" onClick={openTargetEditor} className="p-2 rounded-lg hover:bg-white/70" title="Edit Target / Formula" aria-label="Edit Target / Formula">
+                                    <Edit className="h-4 w-4 text-slate-600" />
+                                  </button>
+                                ) : null}
+                                {allowed('metrics') ? (
+                                  <button type="button" onClick={openMetricsEditor} className="p-2 rounded-lg hover:bg-white/70" title="Edit Metrics" aria-label="Edit Metrics">
+                                    <Activity className="h-4 w-4 text-slate-600" />
+                                  </button>
+                                ) : null}
                               </>
                             }
                           >
@@ -1086,18 +1900,25 @@ export function SafetyDashboard() {
                                 </div>
                                 <div className="mt-1 text-slate-800 font-medium leading-relaxed" style={{ fontSize: scaledPx(13, panelScale, 11, 16) }}>
                                   <div>
-                                    <span className="font-bold">Total Working Time</span> = ({targetVars.manpower} man × {targetVars.daysPerWeek} Day/Week × {targetVars.hoursPerDay} Hr. × {targetVars.workingDaysYear} Day)
+                                    <span className="font-bold">Total Working Time</span> = ({effectiveTargetVars.manpower} man × {effectiveTargetVars.daysPerWeek} Day/Week × {effectiveTargetVars.hoursPerDay} Hr. × {effectiveTargetVars.workingDaysYear} Day)
                                     {' '}= <span className="font-extrabold">{formatNumber(totalManHours)}</span> man-hours
                                   </div>
                                   <div>
-                                    <span className="font-bold">To Date Record</span> = ({targetVars.manpower} man × {targetVars.daysPerWeek} Day/Week × {targetVars.hoursPerDay} Hr. × {targetVars.workingDaysSoFar} Day)
+                                    <span className="font-bold">To Date Record</span> = ({effectiveTargetVars.manpower} man × {effectiveTargetVars.daysPerWeek} Day/Week × {effectiveTargetVars.hoursPerDay} Hr. × {effectiveTargetVars.workingDaysSoFar} Day)
                                     {' '}= <span className="font-extrabold">{formatNumber(toDateManHours)}</span> man-hours
                                   </div>
                                   <div>
-                                    <span className="font-bold">Best Record</span> = <span className="font-extrabold">{formatNumber(bestRecord)}</span> man-hours
+                                    <span className="font-bold">Best Record</span> = <span className="font-extrabold">{formatNumber(effectiveBestRecord)}</span> man-hours
+                                    {bestRecord > autoBestRecord ? (
+                                      <span className="text-slate-500"> (historic record)</span>
+                                    ) : streakRecord.longest.start && streakRecord.longest.end ? (
+                                      <span className="text-slate-500">
+                                        {' '}({streakRecord.longest.days} days, {formatShortDate(streakRecord.longest.start)} – {formatShortDate(streakRecord.longest.end)})
+                                      </span>
+                                    ) : null}
                                   </div>
                                   <div>
-                                    <span className="font-bold">Number of loss time accident in this year</span> = <span className="font-extrabold">{formatNumber(lossTimeAccidents)}</span> Time
+                                    <span className="font-bold">Number of loss time accident in this year</span> = <span className="font-extrabold">{formatNumber(injuryRates.lostTimeInjuries)}</span> Time
                                   </div>
                                 </div>
                               </div>
@@ -1118,6 +1939,7 @@ export function SafetyDashboard() {
                                       key={m.id}
                                       className="rounded-2xl border p-3 flex flex-col justify-between shadow-[0_1px_0_rgba(2,132,199,0.05)] min-h-0 overflow-hidden"
                                       style={metricAccentStyle(metricToneKey(m.label))}
+                                      title={metricFormula(m)}
                                     >
                                       <div className="font-semibold text-slate-700 leading-tight break-words line-clamp-2" style={{ fontSize: scaledPx(14, cardScale, 10, 16) }}>
                                         <span className="inline-flex items-center gap-2">
@@ -1127,7 +1949,7 @@ export function SafetyDashboard() {
                                       </div>
                                       <div className="mt-1 flex items-end gap-1 min-w-0">
                                         <div className="font-extrabold text-slate-900 leading-none truncate" style={{ fontSize: scaledPx(38, cardScale, 18, 48) }}>
-                                          {m.value}
+                                          {metricValue(m)}
                                         </div>
                                         <div className="font-semibold text-slate-500 pb-[0.12rem] truncate" style={{ fontSize: scaledPx(16, cardScale, 9, 18) }}>
                                           {m.unit}
@@ -1162,9 +1984,26 @@ export function SafetyDashboard() {
                       {(panelScale) => (
                         <Card title="Safety Streak" icon={<Flame className="h-5 w-5 text-emerald-700" />} tone="green" panelScale={panelScale}>
                           <div className="h-full flex flex-col items-center justify-center text-center">
+                            {areas.length > 1 ? (
+                              <div className="mb-1 rounded-full bg-emerald-50 border border-emerald-200 px-3 py-0.5 font-extrabold text-emerald-800" style={{ fontSize: scaledPx(13, panelScale, 10, 17) }}>
+                                {activeAreaName}
+                              </div>
+                            ) : null}
                             <div className="font-bold text-slate-600" style={{ fontSize: scaledPx(14, panelScale, 12, 18) }}>Zero Accident Days</div>
-                            <div className="mt-2 font-extrabold text-emerald-700 leading-none" style={{ fontSize: scaledPx(84, panelScale, 46, 120) }}>{safetyStreak}</div>
+                            <div className="mt-2 font-extrabold text-emerald-700 leading-none" style={{ fontSize: scaledPx(84, panelScale, 46, 120) }}>{safetyStreak.days}</div>
                             <div className="mt-2 font-semibold text-slate-700" style={{ fontSize: scaledPx(16, panelScale, 12, 22) }}>days</div>
+                            {streakStartLabel ? (
+                              <div className="mt-1 font-semibold text-slate-500" style={{ fontSize: scaledPx(13, panelScale, 10, 17) }}>since {streakStartLabel}</div>
+                            ) : null}
+                            {isNewStreakRecord ? (
+                              <div className="mt-2 rounded-full bg-amber-100 border border-amber-300 px-3 py-0.5 font-extrabold text-amber-800" style={{ fontSize: scaledPx(13, panelScale, 10, 17) }}>
+                                NEW RECORD!
+                              </div>
+                            ) : streakRecord.longest.days ? (
+                              <div className="mt-1 font-semibold text-slate-500" style={{ fontSize: scaledPx(12, panelScale, 10, 16) }}>
+                                Longest: {streakRecord.longest.days} days
+                              </div>
+                            ) : null}
                             <div className="mt-4 inline-flex items-center gap-2 rounded-2xl bg-sky-50 border border-sky-100 px-4 py-2">
                               <Shield className="h-4 w-4 text-sky-700" />
                               <span className="text-sm font-bold text-slate-700">Zero Accident Workplace</span>
@@ -1185,18 +2024,77 @@ export function SafetyDashboard() {
                         const weekRows = Math.max(4, Math.ceil(gridCells.length / 7));
                         const compactScale = clamp(panelScale * (weekRows >= 6 ? 0.9 : 1), 0.62, 1.08);
                         return (
-                          <Card title="Safety Calendar" icon={<CalendarIcon className="h-5 w-5 text-sky-600" />} tone="sky" panelScale={panelScale}>
+                          <Card
+                            title="Safety Calendar"
+                            icon={<CalendarIcon className="h-5 w-5 text-sky-600" />}
+                            tone="sky"
+                            panelScale={panelScale}
+                            actions={
+                              <>
+                                {areas.length > 1 ? (
+                                  <>
+                                    <select
+                                      value={activeView}
+                                      onChange={(e) => { setAreaView(e.target.value); setAreaRotate(false); }}
+                                      className="max-w-[10rem] rounded-lg border border-slate-200 bg-white px-1.5 py-1 text-xs font-extrabold text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                                      title="พื้นที่ที่แสดงใน Safety Streak / Safety Calendar"
+                                    >
+                                      <option value={PLANT_VIEW}>ทั้งโรงงาน (รวม)</option>
+                                      {areas.map((a) => <option key={a.id} value={a.id}>{a.name || 'ไม่มีชื่อ'}</option>)}
+                                    </select>
+                                    <button
+                                      type="button"
+                                      onClick={() => setAreaRotate((r) => !r)}
+                                      className={`p-2 rounded-lg ${areaRotate ? 'bg-sky-100 ring-1 ring-sky-300' : 'hover:bg-white/70'}`}
+                                      title={areaRotate ? `หยุดหมุนพื้นที่ (ทุก ${AREA_ROTATE_SECONDS} วินาที)` : `หมุนแสดงทีละพื้นที่ทุก ${AREA_ROTATE_SECONDS} วินาที`}
+                                      aria-label="Rotate areas"
+                                    >
+                                      <Repeat className="h-4 w-4 text-slate-600" />
+                                    </button>
+                                  </>
+                                ) : null}
+                                {allowed('calendar') ? (
+                                  <>
+                                    <button type="button" onClick={() => setEditAreas(true)} className="p-2 rounded-lg hover:bg-white/70" title="Edit areas" aria-label="Edit areas">
+                                      <Factory className="h-4 w-4 text-slate-600" />
+                                    </button>
+                                    <button type="button" onClick={() => setEditClassifications(true)} className="p-2 rounded-lg hover:bg-white/70" title="Edit day classifications" aria-label="Edit day classifications">
+                                      <Tags className="h-4 w-4 text-slate-600" />
+                                    </button>
+                                    <button type="button" onClick={() => setEditHolidays(true)} className="p-2 rounded-lg hover:bg-white/70" title="Edit holidays / work week" aria-label="Edit holidays / work week">
+                                      <CalendarDays className="h-4 w-4 text-slate-600" />
+                                    </button>
+                                  </>
+                                ) : null}
+                              </>
+                            }
+                          >
                             <div className="h-full flex flex-col min-h-0">
                               <div className="flex items-center justify-between gap-2 mb-2 shrink-0">
                                 <div className="flex items-center gap-2 min-w-0">
-                                  <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50" onClick={() => setDisplayMonth((m) => (m + 11) % 12)} title="Prev">‹</button>
-                                  <div className="text-base md:text-lg font-extrabold text-slate-900 truncate">{MONTHS[displayMonth]} {currentYear}</div>
-                                  <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50" onClick={() => setDisplayMonth((m) => (m + 1) % 12)} title="Next">›</button>
+                                  <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50" onClick={() => shiftDisplayMonth(-1)} title="Prev">‹</button>
+                                  <div className="text-base md:text-lg font-extrabold text-slate-900 truncate">{MONTHS[displayMonth]}</div>
+                                  <select
+                                    value={viewYear}
+                                    onChange={(e) => setViewYear(Number(e.target.value))}
+                                    className="rounded-xl border border-slate-200 bg-white px-1.5 py-1 text-base md:text-lg font-extrabold text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                                    title="เลือกปี"
+                                  >
+                                    {yearOptions.map((y) => <option key={y} value={y}>{y}</option>)}
+                                  </select>
+                                  <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50" onClick={() => shiftDisplayMonth(1)} title="Next">›</button>
+                                  {isArchiveView || displayMonth !== now.getMonth() ? (
+                                    <button type="button" className="px-2 py-1.5 rounded-xl border border-sky-200 bg-sky-50 text-xs font-extrabold text-sky-800 hover:bg-sky-100" onClick={goToToday} title="กลับไปเดือนปัจจุบัน">
+                                      Today
+                                    </button>
+                                  ) : null}
                                 </div>
-                                <div className="grid grid-cols-3 gap-1 text-[10px] md:text-xs font-bold shrink-0">
-                                  <div className="px-2 py-1 rounded-lg bg-emerald-50 border border-emerald-100 text-emerald-700">{monthSummary.safe} SAFE</div>
-                                  <div className="px-2 py-1 rounded-lg bg-amber-50 border border-amber-100 text-amber-800">{monthSummary.near} NM</div>
-                                  <div className="px-2 py-1 rounded-lg bg-rose-50 border border-rose-100 text-rose-700">{monthSummary.accident} ACC</div>
+                                <div className="flex flex-wrap justify-end gap-1 text-[10px] md:text-xs font-bold min-w-0">
+                                  {monthSummary.map(({ cls, count }) => (
+                                    <div key={cls.id} className="px-2 py-1 rounded-lg border whitespace-nowrap" style={classificationBadgeStyle(cls.color)}>
+                                      {count} {cls.label}
+                                    </div>
+                                  ))}
                                 </div>
                               </div>
 
@@ -1205,31 +2103,37 @@ export function SafetyDashboard() {
                                   <div key={d} className="text-[10px] md:text-xs font-bold text-slate-500 text-center">{d}</div>
                                 ))}
                               </div>
-                              <div className="mb-1 rounded-lg border border-sky-100 bg-sky-50/80 px-2 py-1 text-[10px] md:text-xs font-semibold text-sky-800 shrink-0 leading-tight">
-                                คลิกวันเพื่อเปลี่ยนสถานะ: ว่าง → SAFE → NEAR MISS → ACCIDENT → ว่าง
-                              </div>
+                              {isClosedYear ? (
+                                <div className="mb-1 rounded-lg border border-slate-200 bg-slate-100/80 px-2 py-1 text-[10px] md:text-xs font-semibold text-slate-700 shrink-0 leading-tight">
+                                  ข้อมูลย้อนหลังปี {viewYear} (อ่านอย่างเดียว) • คลิกวันเพื่อดูเหตุการณ์
+                                </div>
+                              ) : isArchiveView ? (
+                                <div className="mb-1 rounded-lg border border-violet-200 bg-violet-50/80 px-2 py-1 text-[10px] md:text-xs font-semibold text-violet-800 shrink-0 leading-tight">
+                                  วางแผนล่วงหน้าปี {viewYear} • คลิกวันเพื่อบันทึก
+                                </div>
+                              ) : (
+                                <div className="mb-1 rounded-lg border border-sky-100 bg-sky-50/80 px-2 py-1 text-[10px] md:text-xs font-semibold text-sky-800 shrink-0 leading-tight">
+                                  คลิกวันเพื่อดู/บันทึกเหตุการณ์ • สีของวันตามเหตุการณ์ที่รุนแรงที่สุด
+                                </div>
+                              )}
 
                               <div className="grid grid-cols-7 gap-1 h-full min-h-0" style={{ gridTemplateRows: `repeat(${weekRows}, minmax(0, 1fr))` }}>
                                 {gridCells.map((c, idx) => {
                                   if (!c.day) return <div key={idx} className="rounded-xl bg-transparent min-h-0" />;
-                                  const cellDate = new Date(currentYear, displayMonth, c.day);
+                                  const cellDate = new Date(viewYear, displayMonth, c.day);
                                   const iso = toISODate(cellDate);
-                                  const isWeekend = cellDate.getDay() === 0 || cellDate.getDay() === 6;
-                                  const holidayNote = HOLIDAY_NOTES_2026[iso];
-                                  const isHoliday = isWeekend || !!holidayNote;
+                                  const isWeekend = !isWorkingWeekday(cellDate, workWeek);
+                                  const holiday = holidayMap[iso];
+                                  const holidayNote = holiday?.note;
                                   const st = displayMonthData?.days?.[c.day - 1]?.status ?? null;
-                                  const cls = st === 'safe' ? 'border-emerald-200 bg-emerald-50'
-                                    : st === 'near_miss' ? 'border-amber-200 bg-amber-50'
-                                    : st === 'accident' ? 'border-rose-200 bg-rose-50'
+                                  const isHoliday = isWeekend || isDayOff(holiday) || st === 'non_working';
+                                  const dayIncidentCount = viewIncidentsByDate[iso]?.length ?? 0;
+                                  const dayClass = st && st !== 'non_working' ? classificationOf(st, viewClassById) : null;
+                                  const cls = dayClass ? ''
                                     : isHoliday ? 'border-slate-200 bg-slate-100/80'
                                     : 'border-slate-200 bg-white';
-                                  const statusText = st === 'safe' ? 'SAFE' : st === 'near_miss' ? 'NEAR MISS' : st === 'accident' ? 'ACCIDENT' : 'NOT SET';
-                                  const statusTone = st === 'safe'
-                                    ? 'text-emerald-700 bg-emerald-100/80 border-emerald-200'
-                                    : st === 'near_miss'
-                                    ? 'text-amber-800 bg-amber-100/80 border-amber-200'
-                                    : st === 'accident'
-                                    ? 'text-rose-700 bg-rose-100/80 border-rose-200'
+                                  const statusText = dayClass ? dayClass.label : st === 'non_working' ? 'OFF' : 'NOT SET';
+                                  const statusTone = dayClass ? ''
                                     : isHoliday
                                     ? 'text-slate-600 bg-slate-200/60 border-slate-300'
                                     : 'text-slate-500 bg-slate-50 border-slate-200';
@@ -1238,23 +2142,44 @@ export function SafetyDashboard() {
                                     <button
                                       key={idx}
                                       type="button"
-                                      onClick={() => cycleDayStatus(c.day!)}
-                                      className={`rounded-xl border p-1 md:p-1.5 flex flex-col gap-1 text-left cursor-pointer hover:shadow-sm transition-shadow min-h-0 overflow-hidden ${cls}`}
-                                      title={holidayNote ? `${holidayNote} • คลิกเพื่อเปลี่ยนสถานะ` : isWeekend ? `วันหยุดสุดสัปดาห์ • คลิกเพื่อเปลี่ยนสถานะ` : 'คลิกเพื่อเปลี่ยนสถานะ'}
+                                      disabled={!allowed('incidents')}
+                                      onClick={() => openDayIncidents(c.day!)}
+                                      className={`rounded-xl border p-1 md:p-1.5 flex flex-col gap-1 text-left min-h-0 overflow-hidden ${allowed('incidents') ? 'cursor-pointer hover:shadow-sm transition-shadow' : 'cursor-default'} ${cls}`}
+                                      style={dayClass ? classificationCellStyle(dayClass.color) : undefined}
+                                      title={[
+                                        holidayNote || (isWeekend ? 'วันหยุดสุดสัปดาห์' : ''),
+                                        dayIncidentCount ? `${dayIncidentCount} เหตุการณ์` : '',
+                                        allowed('incidents') ? 'คลิกเพื่อดู/บันทึกเหตุการณ์' : '',
+                                      ].filter(Boolean).join(' • ')}
                                     >
                                       <div className="flex items-center justify-between gap-1 shrink-0">
-                                        <div className={`font-extrabold ${(!st && isHoliday) ? 'text-slate-600' : 'text-slate-900'}`} style={{ fontSize: scaledPx(13, compactScale, 10, 16) }}>{c.day}</div>
-                                        {st === 'safe' && <CheckCircle2 className="h-3.5 w-3.5 text-emerald-700 shrink-0" />}
-                                        {st === 'near_miss' && <AlertTriangle className="h-3.5 w-3.5 text-amber-700 shrink-0" />}
-                                        {st === 'accident' && <AlertTriangle className="h-3.5 w-3.5 text-rose-700 shrink-0" />}
+                                        <div className={`font-extrabold ${((!st || st === 'non_working') && isHoliday) ? 'text-slate-600' : 'text-slate-900'}`} style={{ fontSize: scaledPx(13, compactScale, 10, 16) }}>{c.day}</div>
+                                        {dayClass && <DayStatusIcon icon={dayClass.icon} color={dayClass.color} className="h-3.5 w-3.5 shrink-0" />}
                                       </div>
-                                      <div className={`mt-auto rounded-md border px-1 py-0.5 font-bold text-center leading-tight ${statusTone}`} style={{ fontSize: scaledPx(10, compactScale, 8, 12) }}>
+                                      {dayIncidentCount > 1 ? (
+                                        <div className="self-end rounded-full bg-white/80 border border-slate-200 px-1.5 font-extrabold text-slate-700 leading-tight" style={{ fontSize: scaledPx(9, compactScale, 7, 11) }}>
+                                          ×{dayIncidentCount}
+                                        </div>
+                                      ) : null}
+                                      <div
+                                        className={`mt-auto rounded-md border px-1 py-0.5 font-bold text-center leading-tight truncate ${statusTone}`}
+                                        style={{ fontSize: scaledPx(10, compactScale, 8, 12), ...(dayClass ? classificationBadgeStyle(dayClass.color) : {}) }}
+                                      >
                                         {statusText}
                                       </div>
                                     </button>
                                   );
                                 })}
                               </div>
+
+                              <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-0.5 shrink-0 text-[10px] md:text-xs font-bold text-slate-600">
+                                {viewClassifications.map((c) => (
+                                  <span key={c.id} className="inline-flex items-center gap-1" title={c.breaksStreak ? 'ตัด Safety Streak' : 'ไม่ตัด Safety Streak'}>
+                                    <DayStatusIcon icon={c.icon} color={c.color} className="h-3 w-3" />
+                                    {c.label}{c.breaksStreak ? ' ✕' : ''}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
                           </Card>
                         );
@@ -1283,14 +2208,16 @@ export function SafetyDashboard() {
               {tickerText}
             </div>
           </div>
-          <button
-            type="button"
-            onClick={openTickerEditor}
-            className="shrink-0 h-9 px-3 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2"
-            title="Edit announcements"
-          >
-            <Edit className="h-4 w-4" /> Edit
-          </button>
+          {allowed('announcements') ? (
+            <button
+              type="button"
+              onClick={() => setEditTicker(true)}
+              className="shrink-0 h-9 px-3 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2"
+              title="Edit announcements"
+            >
+              <Edit className="h-4 w-4" /> Edit
+            </button>
+          ) : null}
         </div>
       </div>
 
@@ -1317,7 +2244,7 @@ export function SafetyDashboard() {
             <div className="space-y-2">
               {metricsDraft.map((m, idx) => (
                 <div key={m.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
-                  <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(220px,1.6fr) minmax(110px,0.5fr) minmax(90px,0.45fr) auto' }}>
+                  <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(220px,1.6fr) minmax(110px,0.5fr) minmax(110px,0.5fr) minmax(90px,0.45fr) auto' }}>
                     <div className="min-w-0">
                       <label className="block text-xs font-extrabold text-slate-500 mb-1">หัวข้อ #{idx + 1}</label>
                       <input
@@ -1326,13 +2253,25 @@ export function SafetyDashboard() {
                         className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">ที่มา</label>
+                      <select
+                        value={m.source ?? 'manual'}
+                        onChange={(e) => updateMetricDraft(m.id, { source: e.target.value as MetricSource })}
+                        className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
+                      >
+                        {METRIC_SOURCES.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                      </select>
+                    </div>
                     <div>
                       <label className="block text-xs font-extrabold text-slate-500 mb-1">ค่า</label>
                       <input
-                        value={m.value}
+                        value={metricValue(m)}
                         onChange={(e) => updateMetricDraft(m.id, { value: e.target.value })}
-                        className="w-full rounded-xl border border-slate-200 px-3 py-2 text-right bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
+                        disabled={(m.source ?? 'manual') !== 'manual'}
+                        className="w-full rounded-xl border border-slate-200 px-3 py-2 text-right bg-white disabled:bg-slate-50 disabled:text-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-200"
                         inputMode="decimal"
+                        title={metricFormula(m)}
                       />
                     </div>
                     <div>
@@ -1373,7 +2312,7 @@ export function SafetyDashboard() {
         <DialogContent className="w-[min(980px,96vw)] max-w-none">
           <DialogHeader>
             <DialogTitle className="text-slate-900 font-extrabold">Safety & Environment Target Settings</DialogTitle>
-            <div className="text-sm text-slate-600 font-semibold">แก้ไขสูตร (Formula) และตัวแปร รวมถึงค่า Best record / Loss time accident</div>
+            <div className="text-sm text-slate-600 font-semibold">แก้ไขสูตร (Formula) และตัวแปร รวมถึงค่า Best record</div>
           </DialogHeader>
 
           <ScrollArea className="h-[60vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
@@ -1387,17 +2326,34 @@ export function SafetyDashboard() {
                     ['hoursPerDay','Hr/Day'],
                     ['workingDaysYear','Working Days/Year'],
                     ['workingDaysSoFar','Working Days (To Date)'],
-                  ] as Array<[keyof TargetVars, string]>).map(([k, label]) => (
-                    <div key={String(k)}>
-                      <label className="block text-xs font-extrabold text-slate-500 mb-1">{label}</label>
-                      <input
-                        value={String(targetVarsDraft[k])}
-                        onChange={(e) => setTargetVarsDraft((p) => ({ ...p, [k]: Number(e.target.value) || 0 }))}
-                        className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
-                        inputMode="decimal"
-                      />
-                    </div>
-                  ))}
+                  ] as Array<[keyof TargetVars, string]>).map(([k, label]) => {
+                    const autoKey = k === 'workingDaysYear' || k === 'workingDaysSoFar' ? k : null;
+                    const isAuto = autoKey ? targetAutoDraft[autoKey] : false;
+                    return (
+                      <div key={String(k)}>
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <label className="block text-xs font-extrabold text-slate-500">{label}</label>
+                          {autoKey ? (
+                            <label className="inline-flex items-center gap-1 text-xs font-extrabold text-slate-500 cursor-pointer" title="นับวันทำงานจากปฏิทิน (สัปดาห์ทำงาน + วันหยุด)">
+                              <input
+                                type="checkbox"
+                                checked={isAuto}
+                                onChange={(e) => setTargetAutoDraft((p) => ({ ...p, [autoKey]: e.target.checked }))}
+                              />
+                              Auto
+                            </label>
+                          ) : null}
+                        </div>
+                        <input
+                          value={String(isAuto ? effectiveTargetVarsDraft[k] : targetVarsDraft[k])}
+                          onChange={(e) => setTargetVarsDraft((p) => ({ ...p, [k]: Number(e.target.value) || 0 }))}
+                          disabled={isAuto}
+                          className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white disabled:bg-slate-50 disabled:text-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-200"
+                          inputMode="decimal"
+                        />
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -1412,7 +2368,7 @@ export function SafetyDashboard() {
                       className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
                       placeholder="manpower * daysPerWeek * hoursPerDay * workingDaysYear"
                     />
-                    <div className="mt-1 text-xs font-semibold text-slate-500">Result: {formatNumber(safeEval(targetFormulasDraft.totalExpr, targetVarsDraft))} man-hours</div>
+                    <div className="mt-1 text-xs font-semibold text-slate-500">Result: {formatNumber(safeEval(targetFormulasDraft.totalExpr, effectiveTargetVarsDraft))} man-hours</div>
                   </div>
                   <div>
                     <label className="block text-xs font-extrabold text-slate-500 mb-1">To Date Record (expression)</label>
@@ -1422,7 +2378,7 @@ export function SafetyDashboard() {
                       className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
                       placeholder="manpower * daysPerWeek * hoursPerDay * workingDaysSoFar"
                     />
-                    <div className="mt-1 text-xs font-semibold text-slate-500">Result: {formatNumber(safeEval(targetFormulasDraft.toDateExpr, targetVarsDraft))} man-hours</div>
+                    <div className="mt-1 text-xs font-semibold text-slate-500">Result: {formatNumber(safeEval(targetFormulasDraft.toDateExpr, effectiveTargetVarsDraft))} man-hours</div>
                   </div>
                 </div>
               </div>
@@ -1431,22 +2387,30 @@ export function SafetyDashboard() {
                 <div className="font-extrabold text-slate-800 mb-2">Values</div>
                 <div className="grid gap-3" style={{ gridTemplateColumns: 'repeat(2, minmax(0,1fr))' }}>
                   <div>
-                    <label className="block text-xs font-extrabold text-slate-500 mb-1">Best Record (man-hours)</label>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">Best Record override (man-hours)</label>
                     <input
                       value={bestRecordDraft}
                       onChange={(e) => setBestRecordDraft(e.target.value)}
                       className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
                       inputMode="decimal"
+                      placeholder="0 = ใช้ค่าอัตโนมัติ"
                     />
+                    <div className="mt-1 text-xs font-semibold text-slate-500">
+                      Auto: {formatNumber(streakManHours(streakRecord.longest.days, targetVarsDraft, streakRules.countNonWorking))} man-hours ({streakRecord.longest.days} days) • ใส่สถิติเดิมก่อนใช้ Dashboard ได้ ระบบจะใช้ค่าที่มากกว่า
+                    </div>
                   </div>
                   <div>
-                    <label className="block text-xs font-extrabold text-slate-500 mb-1">Loss time accident (Time)</label>
-                    <input
-                      value={lossTimeAccidentsDraft}
-                      onChange={(e) => setLossTimeAccidentsDraft(e.target.value)}
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">IFR / ISR base (man-hours)</label>
+                    <select
+                      value={rateBaseDraft}
+                      onChange={(e) => setRateBaseDraft(Number(e.target.value) as RateBase)}
                       className="w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-200"
-                      inputMode="decimal"
-                    />
+                    >
+                      {RATE_BASES.map((b) => <option key={b} value={b}>{formatNumber(b)}</option>)}
+                    </select>
+                    <div className="mt-1 text-xs font-semibold text-slate-500">
+                      IFR = lost-time injuries × base / To Date man-hours • ISR = lost days × base / To Date man-hours
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1462,29 +2426,184 @@ export function SafetyDashboard() {
         </DialogContent>
       </Dialog>
 
-      {/* Ticker edit dialog */}
-      <Dialog open={editTicker} onOpenChange={(open) => { if (!open) setEditTicker(false); }}>
-        <DialogContent className="w-[min(980px,96vw)] max-w-none">
-          <DialogHeader>
-            <DialogTitle className="text-slate-900 font-extrabold">Announcement Ticker</DialogTitle>
-            <div className="text-sm text-slate-600 font-semibold">พิมพ์ 1 บรรทัด = 1 ข้อความ • ระบบจะนำไปวิ่งเป็นแถบด้านล่าง</div>
-          </DialogHeader>
-
-          <textarea
-            value={tickerDraft}
-            onChange={(e) => setTickerDraft(e.target.value)}
-            className="w-full h-[55vh] rounded-2xl border border-slate-200 p-4 font-semibold bg-white focus:outline-none focus:ring-2 focus:ring-sky-200"
-            placeholder="พิมพ์ข้อความ..."
-          />
+      {/* Incident log dialog */}
+      <IncidentDialog
+        dateIso={incidentDate}
+        incidents={incidentDate ? viewIncidentsByDate[incidentDate] ?? [] : []}
+        dayStatus={incidentDayStatus}
+        readOnly={isClosedYear}
+        holidayNote={incidentDate ? holidayMap[incidentDate]?.note : undefined}
+        shifts={shifts}
+        classifications={viewClassifications}
+        areas={archive ? archive.areas : areas}
+        defaultAreaId={activeView === PLANT_VIEW ? areas[0].id : activeView}
+        areaLabel={activeAreaName}
+        onClose={() => setIncidentDate(null)}
+        onSave={saveDayIncidents}
+      />
+
+      {/* Upload previews: images are optimised, PDFs rendered page by page, videos checked */}
+      <ImageUploadDialog
+        file={pendingUpload && !isPdfFile(pendingUpload.file) && !isVideoFile(pendingUpload.file) ? pendingUpload.file : null}
+        onClose={() => setPendingUpload(null)}
+        onSave={savePendingUpload}
+      />
+      <PdfImportDialog
+        file={pendingUpload && isPdfFile(pendingUpload.file) ? pendingUpload.file : null}
+        onClose={() => setPendingUpload(null)}
+        onSave={savePendingPdf}
+      />
+      <VideoUploadDialog
+        file={pendingUpload?.applyVideo && isVideoFile(pendingUpload.file) ? pendingUpload.file : null}
+        onClose={() => setPendingUpload(null)}
+        onSave={savePendingVideo}
+      />
+
+      {/* Sign-in and account manager dialogs */}
+      <SignInDialog
+        open={signingIn}
+        store={accountStore}
+        setupAllowed={accountsKnown}
+        onClose={() => setSigningIn(false)}
+        onSignIn={(account, pin) => {
+          setCurrentUser(account);
+          credentialRef.current = { id: account.id, pin };
+          setSigningIn(false);
+        }}
+        onSetup={async (store, admin, pin) => {
+          const problem = await saveAccounts(store);
+          if (problem) return problem;
+          setCurrentUser(admin);
+          credentialRef.current = { id: admin.id, pin };
+          setSigningIn(false);
+          return null;
+        }}
+      />
+      <AccountsDialog
+        open={editAccounts}
+        store={accountStore}
+        currentId={currentUser?.id ?? null}
+        onClose={() => setEditAccounts(false)}
+        onSave={async (next, ownPin) => {
+          // The server checks this save against the PIN stored so far.
+          const problem = await saveAccounts(next);
+          if (problem) return problem;
+          if (ownPin && currentUser) credentialRef.current = { id: currentUser.id, pin: ownPin };
+          setEditAccounts(false);
+          return null;
+        }}
+        onShare={stateServer && remoteAccounts === 'none' ? () => saveAccounts(accountStore) : null}
+      />
+
+      {/* Profile switcher dialog */}
+      <ProfileDialog open={editProfiles} profile={profile} onClose={() => setEditProfiles(false)} />
+
+      {/* Poster playlist dialogs */}
+      <PosterPlaylistDialog
+        open={editPosterTopPlaylist}
+        title="Poster (Policy)"
+        slides={posterTopSlides}
+        server={stateServer}
+        measureFrame={() => frameAspect(posterTopFrameRef.current)}
+        onClose={() => setEditPosterTopPlaylist(false)}
+        onSave={(slides) => {
+          setPosterTopSlides(slides);
+          setEditPosterTopPlaylist(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
+      <PosterPlaylistDialog
+        open={editPosterBottomPlaylist}
+        title="Poster"
+        slides={posterBottomSlides}
+        server={stateServer}
+        measureFrame={() => frameAspect(posterBottomFrameRef.current)}
+        onClose={() => setEditPosterBottomPlaylist(false)}
+        onSave={(slides) => {
+          setPosterBottomSlides(slides);
+          setEditPosterBottomPlaylist(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
+
+      {/* Area manager dialog */}
+      <AreaDialog
+        open={editAreas}
+        areas={areas}
+        onClose={() => setEditAreas(false)}
+        onSave={saveAreas}
+      />
+
+      {/* Day classification manager dialog */}
+      <ClassificationDialog
+        open={editClassifications}
+        classifications={dayClassifications}
+        onClose={() => setEditClassifications(false)}
+        onSave={(next) => {
+          setDayClassifications(next);
+          setEditClassifications(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
+
+      {/* Holiday manager dialog. The holiday list, work week and shifts it edits are the live
+          year's, so it opens on the live year whichever year the calendar is showing. */}
+      <HolidayDialog
+        open={editHolidays}
+        year={currentYear}
+        holidays={holidays}
+        workWeek={workWeek}
+        shifts={shifts}
+        onClose={() => setEditHolidays(false)}
+        onSave={(next, nextWeek, nextShifts) => {
+          setHolidays(next);
+          setWorkWeek(nextWeek);
+          setShifts(nextShifts);
+          setEditHolidays(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
 
-          <DialogFooter className="gap-2">
-            <button type="button" onClick={() => setEditTicker(false)} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
-            <button type="button" onClick={saveTickerEditor} className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2">
-              <Save className="h-4 w-4" /> Save
-            </button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* Ticker edit dialog */}
+      <AnnouncementDialog
+        open={editTicker}
+        announcements={announcements}
+        onClose={() => setEditTicker(false)}
+        onSave={(next) => {
+          setAnnouncements(next.length ? next : DEFAULT_ANNOUNCEMENTS);
+          setEditTicker(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
+
+      {/* Safety Policy manager dialog */}
+      <PolicyDialog
+        open={editPolicy}
+        settings={{ images: policyImages, layout: policyLayout, pageSeconds: policyPageSeconds }}
+        server={stateServer}
+        zoom={policyZoom}
+        measureFrame={() => frameAspect(policyFrameRef.current)}
+        onPickFile={(file, apply) => storeUpload(file, apply)}
+        onClose={() => setEditPolicy(false)}
+        onSave={(next) => {
+          setPolicyImages(next.images);
+          setPolicyLayout(next.layout);
+          setPolicyPageSeconds(next.pageSeconds);
+          setEditPolicy(false);
+          setLastUpdateIso(new Date().toISOString());
+        }}
+      />
+
+      {/* Crop / fit / position of a poster slide */}
+      <FramingDialog
+        target={framingTarget}
+        server={stateServer}
+        onClose={() => setFramingTarget(null)}
+        onSave={(framing) => {
+          framingTarget?.apply(framing);
+          setFramingTarget(null);
+        }}
+      />
     </div>
   );
 }
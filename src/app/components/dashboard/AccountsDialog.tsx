@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { CloudUpload, Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { ROLES, hashPin, newSalt, type Account, type AccountStore, type Role } from './accounts';
+import { ADMIN_PIN_LENGTH, isValidPin } from './admin';
+import { uid, useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+// `pin` is a newly typed PIN; empty keeps the account's current one.
+type AccountDraft = Account & { pin: string; isNew: boolean };
+
+// PINs identify the person signing in, so they have to differ between accounts.
+function validate(draft: AccountDraft[]): string | null {
+  if (!draft.some((a) => a.role === 'admin')) return 'ต้องมีบัญชี Admin อย่างน้อย 1 บัญชี';
+  for (const a of draft) {
+    if (a.isNew && !a.pin) return `ตั้ง PIN ให้ ${a.name.trim() || 'บัญชีใหม่'}`;
+    if (a.pin && !isValidPin(a.pin)) return `PIN ต้องเป็นตัวเลข ${ADMIN_PIN_LENGTH} หลัก (${a.name.trim() || 'ไม่มีชื่อ'})`;
+    if (a.pin && draft.some((b) => b.id !== a.id && b.pin === a.pin)) return pinTaken(a);
+  }
+  return null;
+}
+
+// Naming the other account would tell whoever is typing a colleague's PIN.
+function pinTaken(a: AccountDraft) {
+  return `PIN ของ ${a.name.trim() || 'ไม่มีชื่อ'} ถูกใช้แล้ว • เลือก PIN อื่น`;
+}
+
+// `onSave` gets the signed-in admin's new PIN too when it was changed, since the server
+// checks later saves against it, and answers with a problem to show or null. `onShare`
+// is offered while the state server has no account list yet and copies this screen's up.
+export function AccountsDialog({
+  open,
+  store,
+  currentId,
+  onClose,
+  onSave,
+  onShare,
+}: {
+  open: boolean;
+  store: AccountStore;
+  currentId: string | null;
+  onClose: () => void;
+  onSave: (store: AccountStore, ownPin: string | null) => Promise<string | null>;
+  onShare: (() => Promise<string | null>) | null;
+}) {
+  const [draft, setDraft] = useState<AccountDraft[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useResetOn(open, () => {
+    setDraft(store.accounts.map((a) => ({ ...a, pin: '', isNew: false })));
+    setError('');
+  });
+
+  const update = (id: string, patch: Partial<AccountDraft>) => {
+    setDraft((p) => p.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const problem = validate(draft);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      // Each new PIN is derived once. Every hash shares the salt and iteration count, so
+      // the result also shows whether an account keeping its PIN already has it.
+      const salt = store.salt || newSalt();
+      const accounts = await Promise.all(draft.map(async ({ pin, isNew: _isNew, ...a }) => ({
+        ...a,
+        name: a.name.trim(),
+        pinHash: pin ? await hashPin(pin, salt) : a.pinHash,
+      })));
+      const keptHashes = new Set(draft.filter((a) => !a.pin).map((a) => a.pinHash));
+      const taken = draft.find((a, i) => a.pin && keptHashes.has(accounts[i].pinHash));
+      if (taken) {
+        setError(pinTaken(taken));
+        return;
+      }
+      const problemSaving = await onSave({ ...store, salt, accounts }, draft.find((a) => a.id === currentId)?.pin || null);
+      if (problemSaving) setError(problemSaving);
+    } catch {
+      setError('ตั้ง PIN ไม่ได้ • ลองใหม่อีกครั้ง');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const share = async () => {
+    if (!onShare) return;
+    setSaving(true);
+    const problem = await onShare();
+    setSaving(false);
+    setError(problem ?? '');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(860px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">User Accounts</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            แต่ละคนเข้าสู่ระบบด้วย PIN ของตัวเอง • สิทธิ์แก้ไขขึ้นกับบทบาท • ใช้ร่วมกันทุกโปรไฟล์ (และทุกจอเมื่อเชื่อมเซิร์ฟเวอร์)
+          </div>
+        </DialogHeader>
+
+        <div className="grid gap-1 text-xs font-semibold text-slate-600" style={{ gridTemplateColumns: 'auto 1fr' }}>
+          {ROLES.map((r) => (
+            <div key={r.value} className="contents">
+              <div className="font-extrabold text-slate-800 pr-3">{r.label}</div>
+              <div>{r.description}</div>
+            </div>
+          ))}
+        </div>
+
+        {onShare ? (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 flex items-center justify-between gap-3">
+            <div className="text-sm font-bold text-amber-800">เซิร์ฟเวอร์ยังไม่มีบัญชีผู้ใช้ • บัญชีด้านล่างใช้ได้เฉพาะจอนี้</div>
+            <button
+              type="button"
+              onClick={() => { void share(); }}
+              disabled={saving}
+              className="px-3 py-1.5 rounded-xl bg-amber-600 text-white font-extrabold hover:bg-amber-700 inline-flex items-center gap-2 shrink-0 disabled:opacity-60"
+            >
+              <CloudUpload className="h-4 w-4" /> ใช้ร่วมกับทุกจอ
+            </button>
+          </div>
+        ) : null}
+
+        <div className="flex items-center justify-end">
+          <button
+            type="button"
+            onClick={() => setDraft((p) => [...p, { id: uid('user'), name: '', role: 'viewer', pinHash: '', pin: '', isNew: true }])}
+            className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" /> เพิ่มผู้ใช้
+          </button>
+        </div>
+
+        <ScrollArea className="h-[40vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.map((a) => (
+              <div key={a.id} className={`rounded-2xl border bg-white p-3 shadow-sm ${a.id === currentId ? 'border-sky-300 ring-2 ring-sky-100' : 'border-slate-200'}`}>
+                <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(180px,1.4fr) minmax(150px,1fr) minmax(130px,0.8fr) auto' }}>
+                  <div className="min-w-0">
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ชื่อ{a.id === currentId ? ' (คุณ)' : ''}</label>
+                    <input value={a.name} onChange={(e) => update(a.id, { name: e.target.value })} className={inputCls} placeholder="เช่น HR Clerk" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">บทบาท</label>
+                    <select value={a.role} onChange={(e) => update(a.id, { role: e.target.value as Role })} className={inputCls}>
+                      {ROLES.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">PIN</label>
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="new-password"
+                      maxLength={ADMIN_PIN_LENGTH}
+                      value={a.pin}
+                      onChange={(e) => update(a.id, { pin: e.target.value.replace(/\D/g, '') })}
+                      className={inputCls}
+                      placeholder={a.isNew ? `${ADMIN_PIN_LENGTH} หลัก` : 'ไม่เปลี่ยน'}
+                    />
+                  </div>
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      disabled={a.id === currentId}
+                      onClick={() => setDraft((p) => p.filter((x) => x.id !== a.id))}
+                      className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1 disabled:opacity-30"
+                      title={a.id === currentId ? 'ลบบัญชีที่กำลังใช้อยู่ไม่ได้' : 'ลบผู้ใช้'}
+                    >
+                      <Trash2 className="h-4 w-4" /> ลบ
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {error ? (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">{error}</div>
+        ) : null}
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => { void save(); }}
+            disabled={saving}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2 disabled:opacity-60"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
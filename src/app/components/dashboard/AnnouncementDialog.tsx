@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { createAnnouncement, type Announcement } from './announcements';
+import { ScheduleFields } from './ScheduleFields';
+import { sanitizeSchedule, useScheduleClock } from './schedule';
+import { useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function AnnouncementDialog({
+  open,
+  announcements,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  announcements: Announcement[];
+  onClose: () => void;
+  onSave: (announcements: Announcement[]) => void;
+}) {
+  const [draft, setDraft] = useState<Announcement[]>([]);
+  const now = useScheduleClock();
+
+  useResetOn(open, () => setDraft(announcements.map((a) => ({ ...a }))));
+
+  const update = (id: string, patch: Partial<Announcement>) => {
+    setDraft((p) => p.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(980px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Announcement Ticker</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">1 รายการ = 1 ข้อความ • ระบบจะนำไปวิ่งเป็นแถบด้านล่าง • ตั้งช่วงวัน/เวลาแสดงได้ เมื่อหมดเวลาข้อความจะซ่อนเอง</div>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end">
+          <button
+            type="button"
+            onClick={() => setDraft((p) => [...p, createAnnouncement()])}
+            className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" /> เพิ่มข้อความ
+          </button>
+        </div>
+
+        <ScrollArea className="h-[50vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.map((a) => (
+              <div key={a.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm space-y-2">
+                <div className="flex items-center gap-2">
+                  <input value={a.text} onChange={(e) => update(a.id, { text: e.target.value })} className={`${inputCls} font-semibold`} placeholder="พิมพ์ข้อความ..." />
+                  <button
+                    type="button"
+                    onClick={() => setDraft((p) => p.filter((x) => x.id !== a.id))}
+                    className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1"
+                    title="ลบข้อความ"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <ScheduleFields schedule={a.schedule} now={now} onChange={(schedule) => update(a.id, { schedule })} />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave(
+              draft
+                .map((a) => ({ ...a, text: a.text.trim(), schedule: sanitizeSchedule(a.schedule) }))
+                .filter((a) => a.text),
+            )}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { AREA_KINDS, createArea, type Area } from './areas';
+import { useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function AreaDialog({
+  open,
+  areas,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  areas: Area[];
+  onClose: () => void;
+  onSave: (areas: Area[]) => void;
+}) {
+  const [draft, setDraft] = useState<Area[]>([]);
+
+  useResetOn(open, () => setDraft(areas.map((a) => ({ ...a }))));
+
+  const update = (id: string, patch: Partial<Area>) => {
+    setDraft((p) => p.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  };
+
+  const removed = areas.filter((a) => !draft.some((d) => d.id === a.id));
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(820px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Areas</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            แต่ละแผนก / ไลน์ผลิต / ผู้รับเหมา มีปฏิทินและ Safety Streak ของตัวเอง • มุมมองทั้งโรงงานใช้สถานะที่แย่ที่สุดของแต่ละวัน
+          </div>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end">
+          <button
+            type="button"
+            onClick={() => setDraft((p) => [...p, createArea()])}
+            className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" /> เพิ่มพื้นที่
+          </button>
+        </div>
+
+        <ScrollArea className="h-[45vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.map((a) => (
+              <div key={a.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+                <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(200px,1.6fr) minmax(140px,0.8fr) auto' }}>
+                  <div className="min-w-0">
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ชื่อ</label>
+                    <input value={a.name} onChange={(e) => update(a.id, { name: e.target.value })} className={inputCls} placeholder="เช่น Press Line 2" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ประเภท</label>
+                    <select value={a.kind} onChange={(e) => update(a.id, { kind: e.target.value as Area['kind'] })} className={inputCls}>
+                      {AREA_KINDS.map((k) => <option key={k.value} value={k.value}>{k.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      disabled={draft.length <= 1}
+                      onClick={() => setDraft((p) => p.filter((x) => x.id !== a.id))}
+                      className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1 disabled:opacity-30"
+                      title="ลบพื้นที่"
+                    >
+                      <Trash2 className="h-4 w-4" /> ลบ
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {removed.length ? (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">
+            เมื่อบันทึก ปฏิทินและเหตุการณ์ของ {removed.map((a) => a.name || 'ไม่มีชื่อ').join(', ')} ในปีนี้จะถูกลบ
+          </div>
+        ) : null}
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave(draft.map((a) => ({ ...a, name: a.name.trim() })))}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import {
+  DAY_ICON_KEYS,
+  classificationBadgeStyle,
+  compareClassifications,
+  createClassification,
+  type DayClassification,
+  type DayIconKey,
+} from './classifications';
+import { DayStatusIcon } from './DayStatusIcon';
+import { useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function ClassificationDialog({
+  open,
+  classifications,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  classifications: DayClassification[];
+  onClose: () => void;
+  onSave: (list: DayClassification[]) => void;
+}) {
+  const [draft, setDraft] = useState<DayClassification[]>([]);
+
+  useResetOn(open, () => setDraft(classifications.map((c) => ({ ...c }))));
+
+  const update = (id: string, patch: Partial<DayClassification>) => {
+    setDraft((p) => p.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const maxRank = draft.reduce((m, c) => Math.max(m, c.rank), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(980px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Day Classifications</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            ประเภทวัน/เหตุการณ์ที่ใช้ในปฏิทิน • ระดับความรุนแรงสูงสุดของวันเป็นสีของวัน • SAFE / NEAR MISS / ACCIDENT เป็นค่าพื้นฐาน ลบไม่ได้
+          </div>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end">
+          <button
+            type="button"
+            onClick={() => setDraft((p) => [...p, createClassification(maxRank + 10)])}
+            className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" /> เพิ่มประเภท
+          </button>
+        </div>
+
+        <ScrollArea className="h-[55vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.map((c) => (
+              <div key={c.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+                <div className="grid gap-2 items-end" style={{ gridTemplateColumns: '120px minmax(160px,1.4fr) 70px minmax(120px,0.8fr) 90px 100px 100px auto' }}>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ตัวอย่าง</label>
+                    <div className="h-10 rounded-xl border px-2 text-xs font-extrabold inline-flex items-center gap-1 max-w-full truncate" style={classificationBadgeStyle(c.color)}>
+                      <DayStatusIcon icon={c.icon} color={c.color} className="h-3.5 w-3.5 shrink-0" />
+                      <span className="truncate">{c.label || '—'}</span>
+                    </div>
+                  </div>
+                  <div className="min-w-0">
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ชื่อ</label>
+                    <input value={c.label} onChange={(e) => update(c.id, { label: e.target.value })} className={inputCls} placeholder="เช่น FIRST AID" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">สี</label>
+                    <input type="color" value={c.color} onChange={(e) => update(c.id, { color: e.target.value })} className="h-10 w-full rounded-xl border border-slate-200 bg-white p-1" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ไอคอน</label>
+                    <select value={c.icon} onChange={(e) => update(c.id, { icon: e.target.value as DayIconKey })} className={inputCls}>
+                      {DAY_ICON_KEYS.map((k) => <option key={k.value} value={k.value}>{k.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-extrabold text-slate-500 mb-1">ระดับ</label>
+                    <input
+                      value={String(c.rank)}
+                      onChange={(e) => update(c.id, { rank: Number(e.target.value) || 0 })}
+                      className={`${inputCls} text-right`}
+                      inputMode="numeric"
+                      title="ตัวเลขมาก = รุนแรงกว่า"
+                    />
+                  </div>
+                  <label className="h-10 inline-flex items-center gap-2 text-xs font-extrabold text-slate-600 cursor-pointer">
+                    <input type="checkbox" checked={c.breaksStreak} onChange={(e) => update(c.id, { breaksStreak: e.target.checked })} />
+                    ตัด Streak
+                  </label>
+                  <label className="h-10 inline-flex items-center gap-2 text-xs font-extrabold text-slate-600 cursor-pointer" title="นับในสูตร IFR / ISR เมื่อมีวันหยุดงาน">
+                    <input type="checkbox" checked={c.lostTime} onChange={(e) => update(c.id, { lostTime: e.target.checked })} />
+                    Lost-time
+                  </label>
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      disabled={c.builtIn}
+                      onClick={() => setDraft((p) => p.filter((x) => x.id !== c.id))}
+                      className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1 disabled:opacity-30"
+                      title={c.builtIn ? 'ค่าพื้นฐาน ลบไม่ได้' : 'ลบประเภท'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave(
+              draft
+                .map((c) => ({ ...c, label: c.label.trim() || c.id.toUpperCase() }))
+                .sort(compareClassifications),
+            )}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import {
+  AlertTriangle,
+  Ambulance,
+  Bandage,
+  CheckCircle2,
+  Droplets,
+  Flame,
+  HeartPulse,
+  Leaf,
+  ShieldAlert,
+  Siren,
+  Tag,
+} from 'lucide-react';
+
+import type { DayIconKey } from './classifications';
+
+const ICONS: Record<DayIconKey, typeof Tag> = {
+  check: CheckCircle2,
+  alert: AlertTriangle,
+  bandage: Bandage,
+  heart: HeartPulse,
+  ambulance: Ambulance,
+  flame: Flame,
+  leaf: Leaf,
+  droplet: Droplets,
+  siren: Siren,
+  shield: ShieldAlert,
+  tag: Tag,
+};
+
+export function DayStatusIcon({ icon, color, className }: { icon: DayIconKey; color: string; className?: string }) {
+  const Icon = ICONS[icon] ?? Tag;
+  return <Icon className={className} style={{ color: `color-mix(in oklab, ${color} 80%, black)` }} />;
+}
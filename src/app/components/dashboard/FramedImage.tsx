@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+
+import { DEFAULT_FRAMING, layoutFrame, type Framing, type Size } from './framing';
+import { MissingMedia, useMediaUrl } from './MediaImage';
+import { clamp } from './utils';
+
+// Fills its parent with an image laid out by a Framing and zoom. With `onPan`, dragging
+// moves the image and reports the new pan, kept within the image's edges.
+export function FramedImage({
+  src,
+  server,
+  alt,
+  framing,
+  zoom = 1,
+  onPan,
+}: {
+  src: string;
+  server: string | null;
+  alt: string;
+  framing: Framing | null | undefined;
+  zoom?: number;
+  onPan?: (pan: { panX: number; panY: number }) => void;
+}) {
+  const { url, missing } = useMediaUrl(src, server);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ x: number; y: number; panX: number; panY: number } | null>(null);
+  const [box, setBox] = useState<Size | null>(null);
+  const [natural, setNatural] = useState<Size | null>(null);
+
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(([entry]) => setBox({ w: entry.contentRect.width, h: entry.contentRect.height }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const img = imgRef.current;
+    setNatural(img?.complete && img.naturalWidth ? { w: img.naturalWidth, h: img.naturalHeight } : null);
+  }, [url]);
+
+  const f = framing ?? DEFAULT_FRAMING;
+  const frame = box && natural && box.w && box.h ? layoutFrame(box, natural, f, zoom) : null;
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!onPan || !frame) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      panX: clamp(f.panX, -frame.maxPanX, frame.maxPanX),
+      panY: clamp(f.panY, -frame.maxPanY, frame.maxPanY),
+    };
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = dragRef.current;
+    if (!d || !onPan || !frame) return;
+    onPan({
+      panX: clamp(d.panX + (e.clientX - d.x) / frame.width, -frame.maxPanX, frame.maxPanX),
+      panY: clamp(d.panY + (e.clientY - d.y) / frame.height, -frame.maxPanY, frame.maxPanY),
+    });
+  };
+
+  return (
+    <div
+      ref={boxRef}
+      className={`relative h-full w-full overflow-hidden ${onPan ? 'cursor-grab active:cursor-grabbing touch-none' : ''}`}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+    >
+      {missing ? (
+        <MissingMedia />
+      ) : url ? (
+        <div
+          className="absolute overflow-hidden"
+          style={frame ? { left: frame.left, top: frame.top, width: frame.width, height: frame.height } : { visibility: 'hidden' }}
+        >
+          <img
+            ref={imgRef}
+            src={url}
+            alt={alt}
+            draggable={false}
+            onLoad={(e) => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+            className="absolute max-w-none select-none"
+            style={frame ? { left: frame.imgLeft, top: frame.imgTop, width: frame.imgWidth, height: frame.imgHeight } : undefined}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { FramedImage } from './FramedImage';
+import {
+  DEFAULT_FRAMING,
+  FIT_MODES,
+  dragCrop,
+  sanitizeFraming,
+  type CropHandle,
+  type CropRect,
+  type Framing,
+} from './framing';
+import { MissingMedia, useMediaUrl } from './MediaImage';
+import type { PageSet } from './pages';
+
+const FULL_CROP: CropRect = { x: 0, y: 0, w: 1, h: 1 };
+const CORNERS: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+// The whole first page with the kept rectangle drawn over it; drag inside to move the
+// rectangle, or a corner to resize it. Moves from a captured corner bubble up to the
+// rectangle's handlers.
+function CropEditor({
+  src,
+  server,
+  crop,
+  onChange,
+}: {
+  src: string;
+  server: string | null;
+  crop: CropRect;
+  onChange: (crop: CropRect) => void;
+}) {
+  const { url, missing } = useMediaUrl(src, server);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; x: number; y: number; start: CropRect } | null>(null);
+
+  const startDrag = (handle: CropHandle) => (e: PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, x: e.clientX, y: e.clientY, start: crop };
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = dragRef.current;
+    const rect = imgRef.current?.getBoundingClientRect();
+    if (!d || !rect?.width || !rect.height) return;
+    onChange(dragCrop(d.start, d.handle, (e.clientX - d.x) / rect.width, (e.clientY - d.y) / rect.height));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  if (missing) return <MissingMedia />;
+  if (!url) return null;
+  return (
+    <div className="relative inline-block max-h-full max-w-full overflow-hidden touch-none select-none">
+      <img ref={imgRef} src={url} alt="" draggable={false} className="block max-h-[50vh] max-w-full" />
+      <div
+        className="absolute border-2 border-white cursor-move"
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.w * 100}%`,
+          height: `${crop.h * 100}%`,
+          boxShadow: '0 0 0 9999px rgba(15, 23, 42, 0.55)',
+        }}
+        onPointerDown={startDrag('move')}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {CORNERS.map((c) => (
+          <div
+            key={c.handle}
+            className={`absolute h-3 w-3 rounded-sm border border-slate-700 bg-white ${c.className}`}
+            onPointerDown={startDrag(c.handle)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export interface FramingTarget {
+  set: PageSet;
+  aspect: number; // width / height of the card the image is shown in
+  zoom: number;
+}
+
+// Chooses the crop, fit and position of an image, previewed in the shape of its card at
+// the card's zoom, so the TVs show exactly this framing.
+export function FramingDialog({
+  target,
+  server,
+  onClose,
+  onSave,
+}: {
+  target: FramingTarget | null;
+  server: string | null;
+  onClose: () => void;
+  onSave: (framing: Framing | null) => void;
+}) {
+  const [draft, setDraft] = useState<Framing>(DEFAULT_FRAMING);
+
+  useEffect(() => {
+    if (target) setDraft(target.set.framing ?? DEFAULT_FRAMING);
+  }, [target]);
+
+  const update = (patch: Partial<Framing>) => setDraft((f) => ({ ...f, ...patch }));
+  const src = target?.set.pages[0] ?? '';
+
+  return (
+    <Dialog open={!!target} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(1100px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Crop & Position</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            ซ้าย: ลากกรอบเพื่อเลือกส่วนที่จะแสดง • ขวา: ตัวอย่างตามขนาดการ์ดจริง ลากภาพเพื่อเลื่อนตำแหน่ง (เมื่อภาพใหญ่กว่ากรอบ)
+          </div>
+        </DialogHeader>
+
+        {target ? (
+          <div className="grid gap-3" style={{ gridTemplateColumns: 'minmax(0,1fr) minmax(0,1fr)' }}>
+            <div className="h-[52vh] rounded-2xl border border-slate-200 bg-slate-900 p-2 flex items-center justify-center overflow-hidden">
+              <CropEditor src={src} server={server} crop={draft.crop ?? FULL_CROP} onChange={(crop) => update({ crop })} />
+            </div>
+            <div className="h-[52vh] rounded-2xl border border-slate-200 bg-slate-50 p-2 flex items-center justify-center overflow-hidden">
+              <div
+                className="rounded-xl border border-slate-300 bg-white overflow-hidden"
+                style={{ aspectRatio: String(target.aspect), width: `min(100%, ${target.aspect * 50}vh)` }}
+              >
+                <FramedImage src={src} server={server} alt="Preview" framing={draft} zoom={target.zoom} onPan={update} />
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <div className="text-xs font-extrabold text-slate-500">การจัดภาพ</div>
+          {FIT_MODES.map((m) => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => update({ fit: m.value })}
+              className={`px-3 py-1.5 rounded-xl border text-sm font-extrabold ${draft.fit === m.value ? 'border-sky-300 bg-sky-50 text-sky-800' : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+          <div className="ml-auto flex items-center gap-2">
+            <button type="button" onClick={() => update({ crop: null })} className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-sm font-extrabold hover:bg-slate-50">
+              ใช้ภาพเต็ม
+            </button>
+            <button type="button" onClick={() => update({ panX: 0, panY: 0 })} className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-sm font-extrabold hover:bg-slate-50">
+              จัดกึ่งกลาง
+            </button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave(sanitizeFraming(draft))}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,400 @@
+import { useMemo, useRef, useState } from 'react';
+import { Copy, Download, FileUp, Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import {
+  HOLIDAY_KINDS,
+  applyHolidayImport,
+  compareHolidays,
+  copyHolidaysForward,
+  createHoliday,
+  previewHolidayImport,
+  type Holiday,
+  type HolidayImportRow,
+} from './holidays';
+import { holidaysToIcs, parseIcsHolidays } from './ical';
+import type { WorkWeek } from './workdays';
+import {
+  createShift,
+  crossesMidnight,
+  formatMinutes,
+  minutesOfTime,
+  productionDayCutoff,
+  type Shift,
+} from './shifts';
+import { useResetOn } from './utils';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const IMPORT_ACTION_TONE: Record<HolidayImportRow['action'], string> = {
+  add: 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  overwrite: 'text-amber-800 bg-amber-50 border-amber-200',
+  unchanged: 'text-slate-500 bg-slate-50 border-slate-200',
+};
+
+const IMPORT_ACTION_LABEL: Record<HolidayImportRow['action'], string> = {
+  add: 'เพิ่มใหม่',
+  overwrite: 'เขียนทับ',
+  unchanged: 'ไม่เปลี่ยน',
+};
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function HolidayDialog({
+  open,
+  year,
+  holidays,
+  workWeek,
+  shifts,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  year: number;
+  holidays: Holiday[];
+  workWeek: WorkWeek;
+  shifts: Shift[];
+  onClose: () => void;
+  onSave: (holidays: Holiday[], workWeek: WorkWeek, shifts: Shift[]) => void;
+}) {
+  const [draft, setDraft] = useState<Holiday[]>([]);
+  const [weekDraft, setWeekDraft] = useState<WorkWeek>(workWeek);
+  const [shiftDraft, setShiftDraft] = useState<Shift[]>(shifts);
+  const [draftYear, setDraftYear] = useState(year);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; rows: HolidayImportRow[]; skipped: number; outside: number; year: number } | null>(null);
+  const [importError, setImportError] = useState('');
+  const icsInputRef = useRef<HTMLInputElement>(null);
+
+  useResetOn(open, () => {
+    setDraft(holidays.map((h) => ({ ...h })));
+    setWeekDraft({ ...workWeek, days: [...workWeek.days] });
+    setShiftDraft(shifts.map((sh) => ({ ...sh })));
+    setDraftYear(year);
+    setImportPreview(null);
+    setImportError('');
+  });
+
+  const updateShift = (id: string, patch: Partial<Shift>) => {
+    setShiftDraft((p) => p.map((sh) => (sh.id === id ? { ...sh, ...patch } : sh)));
+  };
+  const validShifts = shiftDraft.filter((sh) => minutesOfTime(sh.start) !== null && minutesOfTime(sh.end) !== null);
+  const cutoff = productionDayCutoff(validShifts);
+
+  const yearEntries = useMemo(
+    () => draft.filter((h) => h.date.startsWith(`${draftYear}-`)).sort(compareHolidays),
+    [draft, draftYear],
+  );
+  const previousYearCount = useMemo(
+    () => draft.filter((h) => h.date.startsWith(`${draftYear - 1}-`)).length,
+    [draft, draftYear],
+  );
+  const duplicateDates = useMemo(() => {
+    const seen = new Set<string>();
+    const dup = new Set<string>();
+    for (const h of yearEntries) (seen.has(h.date) ? dup : seen).add(h.date);
+    return dup;
+  }, [yearEntries]);
+
+  const update = (id: string, patch: Partial<Holiday>) => {
+    setDraft((p) => p.map((h) => (h.id === id ? { ...h, ...patch } : h)));
+  };
+
+  const onIcsSelected = (file?: File | null) => {
+    if (!file) return;
+    setImportError('');
+    file.text().then((text) => {
+      const parsed = parseIcsHolidays(text, draftYear);
+      if (!parsed.holidays.length) {
+        setImportError(`ไม่พบวันหยุดแบบทั้งวัน (all-day) ของปี ${draftYear} ในไฟล์ ${file.name}`);
+        return;
+      }
+      setImportPreview({
+        fileName: file.name,
+        rows: previewHolidayImport(draft, parsed.holidays),
+        skipped: parsed.skipped,
+        outside: parsed.outside,
+        year: draftYear,
+      });
+    }).catch(() => setImportError(`อ่านไฟล์ ${file.name} ไม่ได้`));
+  };
+
+  const applyImport = () => {
+    if (!importPreview) return;
+    setDraft((p) => applyHolidayImport(p, importPreview.rows));
+    setImportPreview(null);
+  };
+
+  const exportIcs = () => {
+    const blob = new Blob([holidaysToIcs(yearEntries)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `holidays-${draftYear}.ics`;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(980px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Holiday Calendar & Work Week</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            วันหยุดราชการ / วันหยุดบริษัท ไม่นับเป็นวันทำงาน • Event แสดงในปฏิทินแต่ยังเป็นวันทำงาน
+          </div>
+        </DialogHeader>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-3 flex items-center gap-x-4 gap-y-2 flex-wrap text-sm">
+          <div className="font-extrabold text-slate-800">Work week</div>
+          <div className="flex items-center gap-1">
+            {WEEKDAY_LABELS.map((label, d) => {
+              const alt = d === 6 && weekDraft.alternateSaturdays;
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  disabled={alt}
+                  onClick={() => setWeekDraft((w) => ({ ...w, days: w.days.map((v, i) => (i === d ? !v : v)) }))}
+                  className={`px-2 py-1 rounded-lg border text-xs font-extrabold ${alt ? 'border-sky-300 bg-sky-50 text-sky-800' : weekDraft.days[d] ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-slate-100 text-slate-500'}`}
+                  title={alt ? 'เสาร์เว้นเสาร์' : weekDraft.days[d] ? 'วันทำงาน' : 'วันหยุด'}
+                >
+                  {label}{alt ? ' ½' : ''}
+                </button>
+              );
+            })}
+          </div>
+          <label className="inline-flex items-center gap-1 font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={weekDraft.alternateSaturdays}
+              onChange={(e) => setWeekDraft((w) => ({ ...w, alternateSaturdays: e.target.checked }))}
+            />
+            เสาร์เว้นเสาร์ เริ่มทำงาน
+          </label>
+          <input
+            type="date"
+            value={weekDraft.alternateAnchor}
+            disabled={!weekDraft.alternateSaturdays}
+            onChange={(e) => e.target.value && setWeekDraft((w) => ({ ...w, alternateAnchor: e.target.value }))}
+            className="rounded-lg border border-slate-200 px-2 py-1 text-xs bg-white disabled:opacity-40"
+            title="วันเสาร์ที่เป็นวันทำงาน (นับสลับสัปดาห์จากวันนี้)"
+          />
+          <label className="inline-flex items-center gap-1 font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={weekDraft.countNonWorkingInStreak}
+              onChange={(e) => setWeekDraft((w) => ({ ...w, countNonWorkingInStreak: e.target.checked }))}
+            />
+            นับวันหยุดใน Safety Streak
+          </label>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-3 flex items-center gap-x-4 gap-y-2 flex-wrap text-sm">
+          <div className="font-extrabold text-slate-800">Shifts</div>
+          {shiftDraft.map((sh) => (
+            <div key={sh.id} className="inline-flex items-center gap-1">
+              <input
+                value={sh.name}
+                onChange={(e) => updateShift(sh.id, { name: e.target.value })}
+                className="w-20 rounded-lg border border-slate-200 px-2 py-1 text-xs font-bold bg-white"
+                placeholder="ชื่อกะ"
+              />
+              <input type="time" value={sh.start} onChange={(e) => updateShift(sh.id, { start: e.target.value })} className="rounded-lg border border-slate-200 px-2 py-1 text-xs bg-white" />
+              <span className="text-slate-400">–</span>
+              <input type="time" value={sh.end} onChange={(e) => updateShift(sh.id, { end: e.target.value })} className="rounded-lg border border-slate-200 px-2 py-1 text-xs bg-white" />
+              {crossesMidnight(sh) ? <span className="text-[11px] font-extrabold text-indigo-700" title="เลิกกะหลังเที่ยงคืน">+1</span> : null}
+              <button
+                type="button"
+                disabled={shiftDraft.length <= 1}
+                onClick={() => setShiftDraft((p) => p.filter((x) => x.id !== sh.id))}
+                className="p-1 rounded-lg text-rose-600 hover:bg-rose-50 disabled:opacity-30"
+                title="ลบกะ"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setShiftDraft((p) => [...p, createShift()])}
+            className="px-2 py-1 rounded-lg border border-slate-200 hover:bg-slate-50 text-xs font-extrabold inline-flex items-center gap-1"
+          >
+            <Plus className="h-3.5 w-3.5" /> กะ
+          </button>
+          <div className="text-xs font-bold text-slate-500">
+            Auto SAFE เมื่อจบกะสุดท้าย: {formatMinutes(cutoff)}{cutoff >= 24 * 60 ? ' ของวันถัดไป' : ''}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50 font-extrabold" onClick={() => setDraftYear((y) => y - 1)} title="Prev year">‹</button>
+            <div className="w-16 text-center text-lg font-extrabold text-slate-900">{draftYear}</div>
+            <button type="button" className="px-2 py-1.5 rounded-xl border border-slate-200 hover:bg-slate-50 font-extrabold" onClick={() => setDraftYear((y) => y + 1)} title="Next year">›</button>
+            <div className="text-xs font-bold text-slate-500 ml-2">รายการทั้งหมด: {yearEntries.length}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              ref={icsInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => { onIcsSelected(e.target.files?.[0]); e.target.value = ''; }}
+            />
+            <button
+              type="button"
+              onClick={() => icsInputRef.current?.click()}
+              className="px-3 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2"
+              title={`นำเข้าวันหยุดปี ${draftYear} จากไฟล์ iCalendar (.ics)`}
+            >
+              <FileUp className="h-4 w-4" /> Import .ics
+            </button>
+            <button
+              type="button"
+              onClick={exportIcs}
+              disabled={!yearEntries.length}
+              className="px-3 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2 disabled:opacity-40"
+              title={`ส่งออกวันหยุดปี ${draftYear} เป็นไฟล์ .ics`}
+            >
+              <Download className="h-4 w-4" /> Export .ics
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft((p) => copyHolidaysForward(p, draftYear - 1, draftYear))}
+              disabled={!previousYearCount}
+              className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2 disabled:opacity-40"
+              title="คัดลอกวันที่เดียวกันจากปีก่อน (เฉพาะวันที่ยังว่าง)"
+            >
+              <Copy className="h-4 w-4" /> Copy {draftYear - 1}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft((p) => [...p, createHoliday(`${draftYear}-01-01`)])}
+              className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> เพิ่มวันหยุด
+            </button>
+          </div>
+        </div>
+
+        {importError ? (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">{importError}</div>
+        ) : null}
+
+        {importPreview ? (
+          <div className="rounded-2xl border border-sky-200 bg-sky-50/60 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="text-sm font-extrabold text-slate-800">
+                ตรวจสอบก่อนนำเข้า: {importPreview.fileName}
+                <span className="ml-2 text-xs font-bold text-slate-500">
+                  เพิ่ม {importPreview.rows.filter((r) => r.action === 'add').length} •
+                  เขียนทับ {importPreview.rows.filter((r) => r.action === 'overwrite').length} •
+                  ไม่เปลี่ยน {importPreview.rows.filter((r) => r.action === 'unchanged').length}
+                  {importPreview.skipped ? ` • ข้าม ${importPreview.skipped} (ไม่ใช่ all-day)` : ''}
+                  {importPreview.outside ? ` • ข้าม ${importPreview.outside} (นอกปี ${importPreview.year})` : ''}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button type="button" onClick={() => setImportPreview(null)} className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Discard</button>
+                <button type="button" onClick={applyImport} className="px-3 py-1.5 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700">Apply</button>
+              </div>
+            </div>
+            <ScrollArea className="h-[40vh] rounded-xl border border-slate-200 bg-white">
+              <table className="w-full text-sm">
+                <tbody>
+                  {importPreview.rows.map((r) => (
+                    <tr key={r.date} className="border-b border-slate-100 last:border-0">
+                      <td className="px-3 py-1.5 font-bold text-slate-700 whitespace-nowrap">{r.date}</td>
+                      <td className="px-3 py-1.5 text-slate-800">
+                        {r.note || '-'}
+                        {r.action === 'overwrite' && r.previous ? (
+                          <span className="ml-2 text-xs text-slate-500 line-through">{r.previous.note}</span>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-1.5 text-xs font-semibold text-slate-500 whitespace-nowrap">
+                        {HOLIDAY_KINDS.find((k) => k.value === r.kind)?.label}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">
+                        <span className={`px-2 py-0.5 rounded-lg border text-xs font-extrabold ${IMPORT_ACTION_TONE[r.action]}`}>{IMPORT_ACTION_LABEL[r.action]}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        ) : (
+          <ScrollArea className="h-[55vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+            {!yearEntries.length ? (
+              <div className="py-10 text-center text-sm font-semibold text-slate-500">ยังไม่มีวันหยุดในปี {draftYear}</div>
+            ) : (
+              <div className="space-y-2">
+                {yearEntries.map((h) => (
+                  <div key={h.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+                    <div className="grid gap-2 items-end" style={{ gridTemplateColumns: '160px minmax(200px,1.6fr) minmax(150px,0.7fr) auto' }}>
+                      <div>
+                        <label className="block text-xs font-extrabold text-slate-500 mb-1">วันที่</label>
+                        <input
+                          type="date"
+                          value={h.date}
+                          onChange={(e) => e.target.value && update(h.id, { date: e.target.value })}
+                          className={`${inputCls} ${duplicateDates.has(h.date) ? 'border-rose-300 ring-2 ring-rose-100' : ''}`}
+                          title={duplicateDates.has(h.date) ? 'วันที่ซ้ำ: จะใช้รายการล่าสุด' : undefined}
+                        />
+                      </div>
+                      <div className="min-w-0">
+                        <label className="block text-xs font-extrabold text-slate-500 mb-1">หมายเหตุ</label>
+                        <input value={h.note} onChange={(e) => update(h.id, { note: e.target.value })} className={inputCls} placeholder="เช่น SONGKRAN DAY" />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-extrabold text-slate-500 mb-1">ประเภท</label>
+                        <select value={h.kind} onChange={(e) => update(h.id, { kind: e.target.value as Holiday['kind'] })} className={inputCls}>
+                          {HOLIDAY_KINDS.map((k) => <option key={k.value} value={k.value}>{k.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex items-end justify-end">
+                        <button
+                          type="button"
+                          onClick={() => setDraft((p) => p.filter((x) => x.id !== h.id))}
+                          className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1"
+                          title="ลบวันหยุด"
+                        >
+                          <Trash2 className="h-4 w-4" /> ลบ
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            disabled={!validShifts.length}
+            onClick={() => onSave(
+              draft.map((h) => ({ ...h, note: h.note.trim() })).sort(compareHolidays),
+              weekDraft,
+              validShifts.map((sh) => ({ ...sh, name: sh.name.trim() })),
+            )}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 disabled:opacity-50 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import {
+  IMAGE_MAX_EDGE_OPTIONS,
+  loadImageSettings,
+  optimizeImage,
+  optimizedFileName,
+  saveImageSettings,
+  supportsWebp,
+  type ImageUploadSettings,
+  type OptimizedImage,
+} from './images';
+import { formatBytes } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+// Shows what an upload becomes after downscaling and re-encoding, with the settings to
+// tune it, before it is stored.
+export function ImageUploadDialog({
+  file,
+  onClose,
+  onSave,
+}: {
+  file: File | null;
+  onClose: () => void;
+  onSave: (blob: Blob, name: string) => void;
+}) {
+  const [settings, setSettings] = useState<ImageUploadSettings>(loadImageSettings);
+  const [result, setResult] = useState<OptimizedImage | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [webp] = useState(supportsWebp);
+
+  useEffect(() => {
+    setResult(null);
+    setError('');
+    if (!file) return;
+    let cancelled = false;
+    setBusy(true);
+    // Debounced so dragging the quality slider doesn't re-encode on every step.
+    const t = window.setTimeout(() => {
+      optimizeImage(file, settings).then(
+        (r) => { if (!cancelled) setResult(r); },
+        (err) => { if (!cancelled) setError(err instanceof Error ? err.message : 'ย่อรูปไม่สำเร็จ'); },
+      ).finally(() => { if (!cancelled) setBusy(false); });
+    }, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [file, settings]);
+
+  useEffect(() => {
+    if (!result) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(result.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result]);
+
+  const update = (patch: Partial<ImageUploadSettings>) => {
+    setSettings((s) => {
+      const next = { ...s, ...patch };
+      saveImageSettings(next);
+      return next;
+    });
+  };
+
+  const saved = result && file ? 1 - result.blob.size / file.size : 0;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(820px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Upload Image</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            ย่อขนาดและบีบอัดรูปก่อนบันทึก • หมุนรูปตามข้อมูล EXIF แล้วตัดข้อมูล EXIF ออก
+          </div>
+        </DialogHeader>
+
+        <div className="grid gap-3" style={{ gridTemplateColumns: 'minmax(0,1.4fr) minmax(220px,1fr)' }}>
+          <div className="h-[40vh] rounded-2xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+            {previewUrl ? (
+              <img src={previewUrl} alt="Preview" className="max-h-full max-w-full object-contain" />
+            ) : (
+              <div className="text-sm font-bold text-slate-500">{error || 'กำลังย่อรูป…'}</div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">ความละเอียดสูงสุด (ด้านยาว)</label>
+              <select value={settings.maxEdge} onChange={(e) => update({ maxEdge: Number(e.target.value) })} className={inputCls}>
+                {IMAGE_MAX_EDGE_OPTIONS.map((o) => <option key={o} value={o}>{o} px</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">รูปแบบไฟล์</label>
+              <select value={settings.format} onChange={(e) => update({ format: e.target.value as ImageUploadSettings['format'] })} className={inputCls}>
+                <option value="webp" disabled={!webp}>WebP{webp ? '' : ' (เบราว์เซอร์นี้ไม่รองรับ)'}</option>
+                <option value="jpeg">JPEG</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">คุณภาพ {Math.round(settings.quality * 100)}%</label>
+              <input
+                type="range"
+                min={40}
+                max={100}
+                step={1}
+                value={Math.round(settings.quality * 100)}
+                onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                className="w-full"
+              />
+            </div>
+
+            {file ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-3 text-sm font-bold text-slate-700 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span>{formatBytes(file.size)}</span>
+                  <ArrowRight className="h-4 w-4 text-slate-400" />
+                  <span className={result && saved > 0 ? 'text-emerald-700' : ''}>{result ? formatBytes(result.blob.size) : '…'}</span>
+                  {result && saved > 0 ? <span className="text-emerald-700">(−{Math.round(saved * 100)}%)</span> : null}
+                </div>
+                {result ? (
+                  <div className="text-xs text-slate-500">
+                    {result.originalWidth}×{result.originalHeight} → {result.width}×{result.height} px
+                  </div>
+                ) : null}
+                {result && saved <= 0 ? (
+                  <div className="text-xs text-amber-700">ไฟล์ต้นฉบับเล็กกว่าอยู่แล้ว แนะนำให้ใช้ไฟล์ต้นฉบับ</div>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => file && onSave(file, file.name)}
+            className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50"
+            title="บันทึกไฟล์เดิมโดยไม่ย่อ (เช่น GIF หรือ SVG)"
+          >
+            ใช้ไฟล์ต้นฉบับ
+          </button>
+          <button
+            type="button"
+            disabled={!result || busy}
+            onClick={() => file && result && onSave(result.blob, optimizedFileName(file.name, settings.format))}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2 disabled:opacity-40"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
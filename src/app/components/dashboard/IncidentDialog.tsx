@@ -0,0 +1,262 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle2, Plus, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import type { DayStatus } from './types';
+import { fromISODate } from './dates';
+import {
+  INCIDENT_SEVERITIES,
+  compareIncidents,
+  createIncident,
+  worstIncidentStatus,
+  type Incident,
+} from './incidents';
+import {
+  classificationBadgeStyle,
+  classificationOf,
+  classificationsById,
+  incidentKinds,
+  type DayClassification,
+} from './classifications';
+import { DayStatusIcon } from './DayStatusIcon';
+import type { Area } from './areas';
+import { formatMinutes, isAfterMidnight, productionDayRollover, type Shift } from './shifts';
+import { useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function IncidentDialog({
+  dateIso,
+  incidents,
+  dayStatus,
+  holidayNote,
+  readOnly = false,
+  shifts,
+  classifications,
+  areas,
+  defaultAreaId,
+  areaLabel,
+  onClose,
+  onSave,
+}: {
+  dateIso: string | null;
+  incidents: Incident[];
+  dayStatus: DayStatus;
+  holidayNote?: string;
+  readOnly?: boolean;
+  shifts: Shift[];
+  classifications: DayClassification[];
+  areas: Area[];
+  defaultAreaId: string; // area new incidents are logged against
+  areaLabel: string;
+  onClose: () => void;
+  onSave: (incidents: Incident[], dayStatus: DayStatus) => void;
+}) {
+  const [draft, setDraft] = useState<Incident[]>([]);
+  const [statusDraft, setStatusDraft] = useState<DayStatus>(null);
+
+  // A different day starts a fresh draft.
+  useResetOn(dateIso, () => {
+    setDraft(incidents.map((i) => ({ ...i })).sort(compareIncidents));
+    setStatusDraft(dayStatus);
+  });
+
+  const update = (id: string, patch: Partial<Incident>) => {
+    setDraft((p) => p.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+  };
+
+  const dateLabel = (() => {
+    const dt = dateIso ? fromISODate(dateIso) : null;
+    return dt ? dt.toLocaleDateString([], { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' }) : '';
+  })();
+
+  const byId = useMemo(() => classificationsById(classifications), [classifications]);
+  const kinds = useMemo(() => incidentKinds(classifications), [classifications]);
+  const derived = worstIncidentStatus(draft, byId);
+  const derivedClass = derived ? classificationOf(derived, byId) : null;
+  // A classified status stored without incident details (older data or manual entry).
+  const legacyClass = statusDraft && statusDraft !== 'safe' && statusDraft !== 'non_working' ? classificationOf(statusDraft, byId) : null;
+  const rollover = productionDayRollover(shifts);
+
+  // Night-shift incidents after midnight stay on this production day; show the real calendar date.
+  const nextDayLabel = (() => {
+    const dt = dateIso ? fromISODate(dateIso) : null;
+    if (!dt) return '';
+    return new Date(dt.getFullYear(), dt.getMonth(), dt.getDate() + 1).toLocaleDateString([], { day: '2-digit', month: 'short' });
+  })();
+
+  return (
+    <Dialog open={!!dateIso} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="w-[min(980px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Incident Log • {areaLabel} • {dateLabel}</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            {readOnly
+              ? 'ข้อมูลย้อนหลัง (อ่านอย่างเดียว)'
+              : 'บันทึกเหตุการณ์ของวันนี้ • สีของวันในปฏิทินคำนวณจากเหตุการณ์ที่รุนแรงที่สุด'}
+            {holidayNote ? ` • ${holidayNote}` : ''}
+            {rollover ? ` • เวลาก่อน ${formatMinutes(rollover)} นับเป็นกะดึกของวันผลิตนี้` : ''}
+          </div>
+        </DialogHeader>
+
+        <fieldset disabled={readOnly} className="flex items-center justify-between gap-2 min-w-0">
+          {readOnly ? <div /> : (
+            <button
+              type="button"
+              onClick={() => dateIso && setDraft((p) => [...p, createIncident(dateIso, defaultAreaId)])}
+              className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> เพิ่มเหตุการณ์
+            </button>
+          )}
+          {derivedClass ? (
+            <div className="px-3 py-1.5 rounded-xl border text-xs font-extrabold inline-flex items-center gap-1" style={classificationBadgeStyle(derivedClass.color)}>
+              <DayStatusIcon icon={derivedClass.icon} color={derivedClass.color} className="h-4 w-4" /> {derivedClass.label}
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 text-xs font-bold">
+              <span className="text-slate-500 mr-1">ไม่มีเหตุการณ์:</span>
+              <button
+                type="button"
+                onClick={() => setStatusDraft(null)}
+                className={`px-3 py-1.5 rounded-xl border ${statusDraft === null ? 'border-slate-400 bg-slate-100 text-slate-800' : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                NOT SET
+              </button>
+              <button
+                type="button"
+                onClick={() => setStatusDraft('safe')}
+                className={`px-3 py-1.5 rounded-xl border inline-flex items-center gap-1 ${statusDraft === 'safe' ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                <CheckCircle2 className="h-3.5 w-3.5" /> SAFE
+              </button>
+              <button
+                type="button"
+                onClick={() => setStatusDraft('non_working')}
+                className={`px-3 py-1.5 rounded-xl border ${statusDraft === 'non_working' ? 'border-slate-400 bg-slate-200 text-slate-800' : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'}`}
+                title="วันหยุด / ไม่มีการทำงาน"
+              >
+                OFF
+              </button>
+              {legacyClass ? (
+                <span
+                  className="px-3 py-1.5 rounded-xl border"
+                  style={classificationBadgeStyle(legacyClass.color)}
+                  title="สถานะเดิมที่ไม่มีรายละเอียดเหตุการณ์"
+                >
+                  {legacyClass.label} (เดิม)
+                </span>
+              ) : null}
+            </div>
+          )}
+        </fieldset>
+
+        <ScrollArea className="h-[55vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          {!draft.length ? (
+            <div className="py-10 text-center text-sm font-semibold text-slate-500">ยังไม่มีเหตุการณ์ที่บันทึกในวันนี้</div>
+          ) : (
+            <fieldset disabled={readOnly} className="space-y-2 min-w-0">
+              {draft.map((inc, idx) => (
+                <div key={inc.id} className="rounded-2xl border bg-white p-3 shadow-sm" style={{ borderColor: `color-mix(in oklab, ${classificationOf(inc.kind, byId).color} 35%, white)` }}>
+                  <div
+                    className="grid gap-2 items-end"
+                    style={{ gridTemplateColumns: `90px minmax(120px,0.8fr) minmax(100px,0.6fr)${areas.length > 1 ? ' minmax(120px,0.8fr)' : ''} minmax(140px,1fr) 90px auto` }}
+                  >
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">
+                        เวลา #{idx + 1}
+                        {isAfterMidnight(inc.time, shifts) ? <span className="ml-1 text-indigo-700" title="หลังเที่ยงคืน">({nextDayLabel})</span> : null}
+                      </label>
+                      <input type="time" value={inc.time} onChange={(e) => update(inc.id, { time: e.target.value })} className={inputCls} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">ประเภท</label>
+                      <select value={inc.kind} onChange={(e) => update(inc.id, { kind: e.target.value })} className={inputCls}>
+                        {kinds.map((k) => <option key={k.id} value={k.id}>{k.label}</option>)}
+                        {byId[inc.kind] ? null : <option value={inc.kind}>{classificationOf(inc.kind, byId).label}</option>}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">ความรุนแรง</label>
+                      <select value={inc.severity} onChange={(e) => update(inc.id, { severity: e.target.value as Incident['severity'] })} className={inputCls}>
+                        {INCIDENT_SEVERITIES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+                      </select>
+                    </div>
+                    {areas.length > 1 ? (
+                      <div>
+                        <label className="block text-xs font-extrabold text-slate-500 mb-1">แผนก / ไลน์</label>
+                        <select value={inc.areaId} onChange={(e) => update(inc.id, { areaId: e.target.value })} className={inputCls}>
+                          {areas.map((a) => <option key={a.id} value={a.id}>{a.name || 'ไม่มีชื่อ'}</option>)}
+                          {areas.some((a) => a.id === inc.areaId) ? null : <option value={inc.areaId}>(พื้นที่ที่ถูกลบ)</option>}
+                        </select>
+                      </div>
+                    ) : null}
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">จุดที่เกิด</label>
+                      <input value={inc.area} onChange={(e) => update(inc.id, { area: e.target.value })} className={inputCls} placeholder="เช่น Press Line 2" />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">วันหยุดงาน</label>
+                      <input
+                        value={String(inc.lostWorkdays)}
+                        onChange={(e) => update(inc.id, { lostWorkdays: Math.max(0, Number(e.target.value) || 0) })}
+                        className={`${inputCls} text-right`}
+                        inputMode="decimal"
+                      />
+                    </div>
+                    <div className="flex items-end justify-end">
+                      {readOnly ? null : (
+                        <button
+                          type="button"
+                          onClick={() => setDraft((p) => p.filter((i) => i.id !== inc.id))}
+                          className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1"
+                          title="ลบเหตุการณ์"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-2 grid gap-2" style={{ gridTemplateColumns: 'minmax(0,1.6fr) minmax(0,1fr)' }}>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">รายละเอียด</label>
+                      <textarea value={inc.description} onChange={(e) => update(inc.id, { description: e.target.value })} className={`${inputCls} h-20`} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">ผู้เกี่ยวข้อง</label>
+                      <textarea value={inc.people} onChange={(e) => update(inc.id, { people: e.target.value })} className={`${inputCls} h-20`} />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </fieldset>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">
+            {readOnly ? 'Close' : 'Cancel'}
+          </button>
+          {readOnly ? null : (
+            <button
+              type="button"
+              onClick={() => onSave(draft.map((i) => ({ ...i, area: i.area.trim(), description: i.description.trim(), people: i.people.trim() })), statusDraft)}
+              className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+            >
+              <Save className="h-4 w-4" /> Save
+            </button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
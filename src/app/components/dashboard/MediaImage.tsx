@@ -0,0 +1,53 @@
+import { useEffect, useState, type ImgHTMLAttributes } from 'react';
+import { ImageOff } from 'lucide-react';
+
+import { acquireMediaUrl, isMediaRef, releaseMediaUrl } from './media';
+
+// Resolves a `media:<id>` reference to an object URL for as long as the component is
+// mounted; other sources are returned as they are. `missing` is set when the media
+// can't be found locally or on the state server.
+export function useMediaUrl(src: string | null, server: string | null): { url: string | null; missing: boolean } {
+  const [url, setUrl] = useState<string | null>(isMediaRef(src) ? null : src);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    setMissing(false);
+    if (!isMediaRef(src)) {
+      setUrl(src);
+      return;
+    }
+    let cancelled = false;
+    setUrl(null);
+    acquireMediaUrl(src, server).then((u) => {
+      if (cancelled) return;
+      setUrl(u);
+      setMissing(!u);
+    });
+    return () => {
+      cancelled = true;
+      releaseMediaUrl(src);
+    };
+  }, [src, server]);
+
+  return { url, missing };
+}
+
+export function MissingMedia() {
+  return (
+    <div className="h-full w-full flex flex-col items-center justify-center gap-2 text-center text-slate-500 p-4">
+      <ImageOff className="h-8 w-8" />
+      <div className="text-sm font-bold">ไม่พบไฟล์ในเครื่องนี้</div>
+    </div>
+  );
+}
+
+// <img> that also accepts `media:<id>` references from the media store.
+export function MediaImage({
+  src,
+  server,
+  ...props
+}: Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src: string; server: string | null }) {
+  const { url, missing } = useMediaUrl(src, server);
+  if (missing) return <MissingMedia />;
+  return url ? <img src={url} {...props} /> : null;
+}
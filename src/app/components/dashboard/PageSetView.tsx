@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { FramedImage } from './FramedImage';
+import type { PageSet } from './pages';
+
+// Shows one page of a PageSet at a time, flipping every `flipSeconds`, in the set's
+// framing. Stepping through the pages by hand restarts the timer on the chosen page.
+export function PageSetView({
+  set,
+  server,
+  alt,
+  zoom = 1,
+}: {
+  set: PageSet;
+  server: string | null;
+  alt: string;
+  zoom?: number;
+}) {
+  const count = set.pages.length;
+  const [page, setPage] = useState(0);
+  const current = Math.min(page, count - 1);
+
+  useEffect(() => {
+    setPage(0);
+  }, [set.pages]);
+
+  useEffect(() => {
+    if (count <= 1 || set.flipSeconds <= 0) return;
+    const t = window.setTimeout(() => setPage((p) => (p + 1) % count), set.flipSeconds * 1000);
+    return () => window.clearTimeout(t);
+  }, [current, count, set.flipSeconds]);
+
+  const step = (delta: number) => setPage((p) => (p + delta + count) % count);
+
+  return (
+    <div className="relative h-full w-full flex items-center justify-center">
+      <FramedImage
+        src={set.pages[current]}
+        server={server}
+        alt={count > 1 ? `${alt} ${current + 1}/${count}` : alt}
+        framing={set.framing}
+        zoom={zoom}
+      />
+      {count > 1 ? (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-full border border-slate-200 bg-white/85 px-1 py-0.5 text-xs font-extrabold text-slate-700 shadow-sm">
+          <button type="button" onClick={() => step(-1)} className="p-1 rounded-full hover:bg-slate-100" title="หน้าก่อนหน้า">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="tabular-nums">{current + 1} / {count}</span>
+          <button type="button" onClick={() => step(1)} className="p-1 rounded-full hover:bg-slate-100" title="หน้าถัดไป">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText, Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import {
+  IMAGE_MAX_EDGE_OPTIONS,
+  encodeCanvas,
+  loadImageSettings,
+  saveImageSettings,
+  supportsWebp,
+  type ImageUploadSettings,
+} from './images';
+import { DEFAULT_FLIP_SECONDS, MAX_FLIP_SECONDS } from './pages';
+import { openPdf, type PdfFile } from './pdf';
+import { clamp, formatBytes } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+const THUMB_EDGE = 220;
+
+// Renders the pages of an uploaded PDF, lets the user pick which ones to show and how
+// long each stays up, and hands back one encoded image per selected page.
+export function PdfImportDialog({
+  file,
+  onClose,
+  onSave,
+}: {
+  file: File | null;
+  onClose: () => void;
+  onSave: (pages: Blob[], flipSeconds: number) => void;
+}) {
+  const pdfRef = useRef<PdfFile | null>(null);
+  const [thumbs, setThumbs] = useState<string[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [settings, setSettings] = useState<ImageUploadSettings>(loadImageSettings);
+  const [flipSeconds, setFlipSeconds] = useState(DEFAULT_FLIP_SECONDS);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [webp] = useState(supportsWebp);
+
+  useEffect(() => {
+    setThumbs([]);
+    setPageCount(0);
+    setSelected(new Set());
+    setError('');
+    setProgress(null);
+    if (!file) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await openPdf(file);
+        if (cancelled) return pdf.close();
+        pdfRef.current = pdf;
+        setPageCount(pdf.pageCount);
+        setSelected(new Set(Array.from({ length: pdf.pageCount }, (_, i) => i)));
+        for (let i = 0; i < pdf.pageCount && !cancelled; i++) {
+          const canvas = await pdf.renderPage(i, THUMB_EDGE);
+          if (!cancelled) setThumbs((t) => [...t, canvas.toDataURL('image/jpeg', 0.7)]);
+        }
+      } catch {
+        if (!cancelled) setError('เปิดไฟล์ PDF ไม่สำเร็จ (ไฟล์เสียหายหรือมีรหัสผ่าน)');
+      }
+    })();
+    return () => {
+      cancelled = true;
+      pdfRef.current?.close();
+      pdfRef.current = null;
+    };
+  }, [file]);
+
+  const updateSettings = (patch: Partial<ImageUploadSettings>) => {
+    setSettings((s) => {
+      const next = { ...s, ...patch };
+      saveImageSettings(next);
+      return next;
+    });
+  };
+
+  const toggle = (i: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  };
+
+  const importPages = async () => {
+    const pdf = pdfRef.current;
+    if (!pdf) return;
+    const indexes = Array.from(selected).sort((a, b) => a - b);
+    const blobs: Blob[] = [];
+    let bytes = 0;
+    try {
+      for (const [n, i] of indexes.entries()) {
+        setProgress(`กำลังแปลงหน้า ${n + 1}/${indexes.length}${bytes ? ` • ${formatBytes(bytes)}` : ''}`);
+        const blob = await encodeCanvas(await pdf.renderPage(i, settings.maxEdge), settings);
+        bytes += blob.size;
+        blobs.push(blob);
+      }
+    } catch {
+      setProgress(null);
+      setError('แปลงหน้า PDF ไม่สำเร็จ');
+      return;
+    }
+    setProgress(null);
+    onSave(blobs, flipSeconds);
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(o) => { if (!o && !busy) onClose(); }}>
+      <DialogContent className="w-[min(900px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Import PDF</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            {file ? `${file.name} • ${formatBytes(file.size)}` : ''}
+            {pageCount ? ` • ${pageCount} หน้า` : ''} • เลือกหน้าที่จะแสดง แต่ละหน้าถูกบันทึกเป็นรูปภาพ
+          </div>
+        </DialogHeader>
+
+        <ScrollArea className="h-[40vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          {error ? (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">{error}</div>
+          ) : (
+            <div className="grid gap-3" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))' }}>
+              {Array.from({ length: pageCount }, (_, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => toggle(i)}
+                  className={`rounded-2xl border bg-white p-2 shadow-sm text-left ${selected.has(i) ? 'border-sky-400 ring-2 ring-sky-100' : 'border-slate-200 opacity-50'}`}
+                >
+                  <div className="h-40 flex items-center justify-center overflow-hidden rounded-xl bg-slate-50">
+                    {thumbs[i] ? <img src={thumbs[i]} alt={`Page ${i + 1}`} className="max-h-full max-w-full object-contain" /> : <FileText className="h-8 w-8 text-slate-300" />}
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-sm font-extrabold text-slate-700">
+                    <input type="checkbox" checked={selected.has(i)} readOnly className="pointer-events-none" /> หน้า {i + 1}
+                  </label>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'repeat(4, minmax(0, 1fr))' }}>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">ความละเอียด (ด้านยาว)</label>
+            <select value={settings.maxEdge} onChange={(e) => updateSettings({ maxEdge: Number(e.target.value) })} className={inputCls}>
+              {IMAGE_MAX_EDGE_OPTIONS.map((o) => <option key={o} value={o}>{o} px</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">รูปแบบไฟล์</label>
+            <select value={settings.format} onChange={(e) => updateSettings({ format: e.target.value as ImageUploadSettings['format'] })} className={inputCls}>
+              <option value="webp" disabled={!webp}>WebP</option>
+              <option value="jpeg">JPEG</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">คุณภาพ {Math.round(settings.quality * 100)}%</label>
+            <input
+              type="range"
+              min={40}
+              max={100}
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => updateSettings({ quality: Number(e.target.value) / 100 })}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">เปลี่ยนหน้าทุก (วินาที, 0 = ไม่เปลี่ยน)</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_FLIP_SECONDS}
+              value={flipSeconds}
+              onChange={(e) => setFlipSeconds(clamp(Math.round(Number(e.target.value) || 0), 0, MAX_FLIP_SECONDS))}
+              className={inputCls}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 items-center">
+          {progress ? <div className="mr-auto text-sm font-bold text-slate-600">{progress}</div> : null}
+          <button type="button" disabled={busy} onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 disabled:opacity-40">Cancel</button>
+          <button
+            type="button"
+            disabled={busy || !selected.size || !!error}
+            onClick={importPages}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2 disabled:opacity-40"
+          >
+            <Save className="h-4 w-4" /> Import {selected.size} หน้า
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { PageSetView } from './PageSetView';
+import { policyLayoutInfo, policyPages, type PolicyImage, type PolicyLayout } from './policy';
+
+// Lays the policy documents out on the card, `perPage` at a time, and moves on to the
+// next group every `pageSeconds` when they don't all fit.
+export function PolicyBoard({
+  images,
+  layout,
+  pageSeconds,
+  zoom,
+  server,
+}: {
+  images: PolicyImage[];
+  layout: PolicyLayout;
+  pageSeconds: number;
+  zoom: number;
+  server: string | null;
+}) {
+  const pages = useMemo(() => policyPages(images, layout), [images, layout]);
+  const count = pages.length;
+  const [page, setPage] = useState(0);
+  const current = Math.min(page, Math.max(0, count - 1));
+
+  useEffect(() => {
+    if (count <= 1 || pageSeconds <= 0) return;
+    const t = window.setTimeout(() => setPage((current + 1) % count), pageSeconds * 1000);
+    return () => window.clearTimeout(t);
+  }, [current, count, pageSeconds]);
+
+  const docs = pages[current] ?? [];
+  if (!docs.length) return null;
+
+  const cols = Math.min(policyLayoutInfo(layout).cols, docs.length);
+  const rows = Math.ceil(docs.length / cols);
+  const step = (delta: number) => setPage((current + delta + count) % count);
+
+  return (
+    <div className="relative h-full w-full">
+      <div
+        key={current}
+        className={`h-full w-full grid gap-2 animate-in fade-in duration-700 ${docs.length > 1 ? 'p-2' : ''}`}
+        style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))` }}
+      >
+        {docs.map((doc, idx) => (
+          <div
+            key={doc.id}
+            className={`min-h-0 overflow-hidden flex items-center justify-center ${docs.length > 1 ? 'rounded-xl border border-slate-200 bg-white' : ''}`}
+          >
+            <PageSetView
+              set={doc.content}
+              server={server}
+              alt={docs.length > 1 ? `Policy ${idx + 1}` : 'Safety Policy'}
+              zoom={zoom}
+            />
+          </div>
+        ))}
+      </div>
+      {count > 1 ? (
+        <div className="absolute top-2 right-2 flex items-center gap-1 rounded-full border border-slate-200 bg-white/85 px-1 py-0.5 text-xs font-extrabold text-slate-700 shadow-sm">
+          <button type="button" onClick={() => step(-1)} className="p-1 rounded-full hover:bg-slate-100" title="ชุดก่อนหน้า">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="tabular-nums">{current + 1} / {count}</span>
+          <button type="button" onClick={() => step(1)} className="p-1 rounded-full hover:bg-slate-100" title="ชุดถัดไป">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
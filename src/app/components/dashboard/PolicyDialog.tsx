@@ -0,0 +1,223 @@
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Crop, FileText, Plus, Save, Trash2, Upload } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { FramingDialog, type FramingTarget } from './FramingDialog';
+import { MediaImage } from './MediaImage';
+import { withFraming, type PageSet } from './pages';
+import {
+  MAX_POLICY_PAGE_SECONDS,
+  MIN_POLICY_PAGE_SECONDS,
+  POLICY_LAYOUTS,
+  createPolicyImage,
+  policyLayoutInfo,
+  type PolicyImage,
+  type PolicyLayout,
+} from './policy';
+import { ScheduleFields } from './ScheduleFields';
+import { isScheduled, sanitizeSchedule, useScheduleClock } from './schedule';
+import { clamp, useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export interface PolicySettings {
+  images: PolicyImage[];
+  layout: PolicyLayout;
+  pageSeconds: number;
+}
+
+// Manager for the Safety Policy card. Picked files go through the dashboard's upload
+// dialogs (`onPickFile`) and land in the draft, so nothing changes on screen until Save.
+export function PolicyDialog({
+  open,
+  settings,
+  server,
+  zoom,
+  measureFrame,
+  onPickFile,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  settings: PolicySettings;
+  server: string | null;
+  zoom: number;
+  // Width / height of the whole card; each document gets its share of it per the layout.
+  measureFrame: () => number;
+  onPickFile: (file: File, apply: (set: PageSet) => void) => void;
+  onClose: () => void;
+  onSave: (settings: PolicySettings) => void;
+}) {
+  const [draft, setDraft] = useState<PolicyImage[]>([]);
+  const [layout, setLayout] = useState<PolicyLayout>(settings.layout);
+  const [pageSeconds, setPageSeconds] = useState(settings.pageSeconds);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Entry whose file is being replaced; null adds a new entry.
+  const replaceIdRef = useRef<string | null>(null);
+  const now = useScheduleClock();
+  const [framing, setFraming] = useState<(FramingTarget & { id: string }) | null>(null);
+
+  useResetOn(open, () => {
+    setDraft(settings.images.map((d) => ({ ...d })));
+    setLayout(settings.layout);
+    setPageSeconds(settings.pageSeconds);
+  });
+
+  const update = (id: string, patch: Partial<PolicyImage>) => {
+    setDraft((p) => p.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setDraft((p) => {
+      const to = index + delta;
+      if (to < 0 || to >= p.length) return p;
+      const next = [...p];
+      [next[index], next[to]] = [next[to], next[index]];
+      return next;
+    });
+  };
+
+  const pickFile = (replaceId: string | null) => {
+    replaceIdRef.current = replaceId;
+    fileInputRef.current?.click();
+  };
+
+  const onFileSelected = (file?: File | null) => {
+    if (!file) return;
+    const replaceId = replaceIdRef.current;
+    onPickFile(file, (set) => {
+      if (replaceId) update(replaceId, { content: set });
+      else setDraft((p) => [...p, createPolicyImage(set)]);
+    });
+  };
+
+  const { cols, perPage } = policyLayoutInfo(layout);
+  const openFraming = (d: PolicyImage) => {
+    const rows = perPage / cols;
+    setFraming({ id: d.id, set: d.content, aspect: (measureFrame() * rows) / cols, zoom });
+  };
+  const showing = draft.filter((d) => isScheduled(d.schedule, now)).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(900px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Safety Policy</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            {draft.length} รายการ (แสดงอยู่ {showing}) • เรียงลำดับ เปลี่ยนไฟล์ ลบ และตั้งช่วงวัน/เวลาแสดงได้ • ถ้าแสดงไม่พอในหน้าเดียวจะเปลี่ยนชุดอัตโนมัติ
+          </div>
+        </DialogHeader>
+
+        <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(160px,1fr) minmax(160px,1fr) auto' }}>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">รูปแบบการแสดง</label>
+            <select value={layout} onChange={(e) => setLayout(e.target.value as PolicyLayout)} className={inputCls}>
+              {POLICY_LAYOUTS.map((l) => <option key={l.value} value={l.value}>{l.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-extrabold text-slate-500 mb-1">เปลี่ยนชุดทุก (วินาที)</label>
+            <input
+              type="number"
+              min={MIN_POLICY_PAGE_SECONDS}
+              max={MAX_POLICY_PAGE_SECONDS}
+              value={pageSeconds}
+              disabled={showing <= perPage}
+              onChange={(e) => setPageSeconds(Number(e.target.value) || 0)}
+              className={`${inputCls} disabled:opacity-50`}
+            />
+          </div>
+          <div>
+            <input ref={fileInputRef} type="file" accept="image/*,application/pdf,.pdf" className="hidden" onChange={(e) => { onFileSelected(e.target.files?.[0]); e.target.value = ''; }} />
+            <button
+              type="button"
+              onClick={() => pickFile(null)}
+              className="px-4 py-2 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> เพิ่มรูป / PDF
+            </button>
+          </div>
+        </div>
+
+        <ScrollArea className="h-[45vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.length ? null : <div className="text-sm font-bold text-slate-500 p-2">ยังไม่มีรูปหรือเอกสาร</div>}
+            {draft.map((d, i) => (
+              <div key={d.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm flex items-start gap-3">
+                <div className="relative h-20 w-16 shrink-0 rounded-xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+                  <MediaImage src={d.content.pages[0]} server={server} alt="" className="max-h-full max-w-full object-contain" />
+                  {d.content.pages.length > 1 ? <FileText className="absolute bottom-1 right-1 h-4 w-4 text-slate-600" /> : null}
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-extrabold text-slate-800">
+                      Policy {i + 1}{d.content.pages.length > 1 ? ` • ${d.content.pages.length} หน้า` : ''}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button type="button" disabled={i === 0} onClick={() => move(i, -1)} className="h-9 w-9 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center disabled:opacity-30" title="เลื่อนขึ้น">
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button type="button" disabled={i === draft.length - 1} onClick={() => move(i, 1)} className="h-9 w-9 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center disabled:opacity-30" title="เลื่อนลง">
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => openFraming(d)} className="h-9 w-9 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center" title="ครอป / จัดตำแหน่ง">
+                        <Crop className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => pickFile(d.id)} className="h-9 px-3 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 font-extrabold text-sm inline-flex items-center gap-1" title="เปลี่ยนไฟล์">
+                        <Upload className="h-4 w-4" /> เปลี่ยนไฟล์
+                      </button>
+                      <button
+                        type="button"
+                        disabled={draft.length <= 1}
+                        onClick={() => setDraft((p) => p.filter((x) => x.id !== d.id))}
+                        className="h-9 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1 disabled:opacity-30"
+                        title="ลบ"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <ScheduleFields schedule={d.schedule} now={now} onChange={(schedule) => update(d.id, { schedule })} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave({
+              images: draft.map((d) => ({ ...d, schedule: sanitizeSchedule(d.schedule) })),
+              layout,
+              pageSeconds: clamp(Math.round(pageSeconds), MIN_POLICY_PAGE_SECONDS, MAX_POLICY_PAGE_SECONDS),
+            })}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+
+      <FramingDialog
+        target={framing}
+        server={server}
+        onClose={() => setFraming(null)}
+        onSave={(f) => {
+          if (framing) setDraft((p) => p.map((d) => (d.id === framing.id ? { ...d, content: withFraming(d.content, f) } : d)));
+          setFraming(null);
+        }}
+      />
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+
+import { MediaImage, MissingMedia, useMediaUrl } from './MediaImage';
+import { PageSetView } from './PageSetView';
+import { isVideoClip, type PosterContent, type VideoClip } from './video';
+
+// Plays a clip muted and looping. Playback pauses while the page is hidden, so a TV box
+// showing another input doesn't keep decoding video, and while its slide is off screen.
+function VideoClipView({
+  clip,
+  server,
+  active,
+  className,
+  style,
+}: {
+  clip: VideoClip;
+  server: string | null;
+  active: boolean;
+  className: string;
+  style?: CSSProperties;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const video = useMediaUrl(clip.video, server);
+  const poster = useMediaUrl(clip.poster, server);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [clip.video]);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    // Autoplay is only allowed for muted video; set the property as well as the attribute.
+    el.muted = true;
+    const sync = () => {
+      if (document.hidden || !active) el.pause();
+      // AbortError only means a pause or new source interrupted it; anything else
+      // (e.g. an unsupported codec) falls back to the still frame.
+      else el.play().catch((err) => { if (err?.name !== 'AbortError') setFailed(true); });
+    };
+    sync();
+    document.addEventListener('visibilitychange', sync);
+    return () => document.removeEventListener('visibilitychange', sync);
+  }, [video.url, failed, active]);
+
+  if (failed || video.missing || !video.url) {
+    if (clip.poster) return <MediaImage src={clip.poster} server={server} alt="Poster" className={className} style={style} />;
+    // Nothing to show while the clip is still loading.
+    return failed || video.missing ? <MissingMedia /> : null;
+  }
+  return (
+    <video
+      ref={videoRef}
+      src={video.url}
+      poster={poster.url ?? undefined}
+      muted
+      loop
+      playsInline
+      preload="auto"
+      onError={() => setFailed(true)}
+      className={className}
+      style={style}
+    />
+  );
+}
+
+// What a poster card shows: an image, the pages of a PDF, or a video clip. Clips are
+// always shown whole; images follow their framing.
+export function PosterContentView({
+  content,
+  server,
+  alt,
+  active = true,
+  zoom = 1,
+}: {
+  content: PosterContent;
+  server: string | null;
+  alt: string;
+  active?: boolean;
+  zoom?: number;
+}) {
+  if (isVideoClip(content)) {
+    return (
+      <VideoClipView
+        clip={content}
+        server={server}
+        active={active}
+        className="max-h-full max-w-full object-contain select-none"
+        style={{ transform: `scale(${zoom})`, transformOrigin: 'center center' }}
+      />
+    );
+  }
+  return <PageSetView set={content} server={server} alt={alt} zoom={zoom} />;
+}
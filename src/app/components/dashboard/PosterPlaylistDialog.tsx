@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Crop, FileText, Film, Save, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { FramingDialog, type FramingTarget } from './FramingDialog';
+import { MediaImage } from './MediaImage';
+import { withFraming } from './pages';
+import { ScheduleFields } from './ScheduleFields';
+import { isScheduled, sanitizeSchedule, useScheduleClock } from './schedule';
+import {
+  MAX_SLIDE_SECONDS,
+  MIN_SLIDE_SECONDS,
+  SLIDE_TRANSITIONS,
+  clampZoom,
+  moveSlide,
+  type PosterSlide,
+  type SlideTransition,
+} from './slides';
+import { clamp, useResetOn } from './utils';
+import { isVideoClip } from './video';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+function SlideThumb({ slide, server }: { slide: PosterSlide; server: string | null }) {
+  const c = slide.content;
+  const src = isVideoClip(c) ? c.poster : c.pages[0];
+  return (
+    <div className="relative h-20 w-16 shrink-0 rounded-xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+      {src ? <MediaImage src={src} server={server} alt="" className="max-h-full max-w-full object-contain" /> : null}
+      {isVideoClip(c) ? <Film className="absolute bottom-1 right-1 h-4 w-4 text-white drop-shadow" /> : null}
+      {!isVideoClip(c) && c.pages.length > 1 ? <FileText className="absolute bottom-1 right-1 h-4 w-4 text-slate-600" /> : null}
+    </div>
+  );
+}
+
+export function PosterPlaylistDialog({
+  open,
+  title,
+  slides,
+  server,
+  measureFrame,
+  onClose,
+  onSave,
+}: {
+  open: boolean;
+  title: string;
+  slides: PosterSlide[];
+  server: string | null;
+  // Width / height of the card, for the framing preview.
+  measureFrame: () => number;
+  onClose: () => void;
+  onSave: (slides: PosterSlide[]) => void;
+}) {
+  const [draft, setDraft] = useState<PosterSlide[]>([]);
+  const now = useScheduleClock();
+  const [framing, setFraming] = useState<(FramingTarget & { id: string }) | null>(null);
+
+  useResetOn(open, () => setDraft(slides.map((s) => ({ ...s }))));
+
+  const update = (id: string, patch: Partial<PosterSlide>) => {
+    setDraft((p) => p.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const openFraming = (s: PosterSlide) => {
+    if (isVideoClip(s.content)) return;
+    setFraming({ id: s.id, set: s.content, aspect: measureFrame(), zoom: clampZoom(s.zoom || 1) });
+  };
+
+  const showing = draft.filter((s) => isScheduled(s.schedule, now));
+  const totalSeconds = showing.reduce((sum, s) => sum + s.seconds, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(860px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">{title} Playlist</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            เพิ่มสไลด์ด้วยปุ่ม Upload บนการ์ด • {draft.length} สไลด์ (แสดงอยู่ {showing.length}) • วนครบรอบประมาณ {Math.round(totalSeconds / 60 * 10) / 10} นาที
+          </div>
+        </DialogHeader>
+
+        <ScrollArea className="h-[50vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {draft.length ? null : <div className="text-sm font-bold text-slate-500 p-2">ยังไม่มีสไลด์</div>}
+            {draft.map((s, i) => (
+              <div key={s.id} className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm space-y-2">
+                <div className="flex items-end gap-3">
+                  <SlideThumb slide={s} server={server} />
+                  <div className="flex-1 grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(90px,0.8fr) minmax(120px,1fr) minmax(90px,0.8fr)' }}>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">แสดง (วินาที)</label>
+                      <input
+                        type="number"
+                        min={MIN_SLIDE_SECONDS}
+                        max={MAX_SLIDE_SECONDS}
+                        value={s.seconds}
+                        onChange={(e) => update(s.id, { seconds: Number(e.target.value) || 0 })}
+                        className={inputCls}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">การเปลี่ยนสไลด์</label>
+                      <select value={s.transition} onChange={(e) => update(s.id, { transition: e.target.value as SlideTransition })} className={inputCls}>
+                        {SLIDE_TRANSITIONS.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-extrabold text-slate-500 mb-1">ขนาด (%)</label>
+                      <input
+                        type="number"
+                        min={50}
+                        max={250}
+                        step={10}
+                        value={Math.round(s.zoom * 100)}
+                        onChange={(e) => update(s.id, { zoom: (Number(e.target.value) || 0) / 100 })}
+                        className={inputCls}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {isVideoClip(s.content) ? null : (
+                      <button
+                        type="button"
+                        onClick={() => openFraming(s)}
+                        className="h-10 w-10 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center"
+                        title="ครอป / จัดตำแหน่ง"
+                      >
+                        <Crop className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button type="button" disabled={i === 0} onClick={() => setDraft((p) => moveSlide(p, i, -1))} className="h-10 w-10 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center disabled:opacity-30" title="เลื่อนขึ้น">
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button type="button" disabled={i === draft.length - 1} onClick={() => setDraft((p) => moveSlide(p, i, 1))} className="h-10 w-10 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 inline-flex items-center justify-center disabled:opacity-30" title="เลื่อนลง">
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft((p) => p.filter((x) => x.id !== s.id))}
+                      className="h-10 px-3 rounded-xl border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-extrabold inline-flex items-center gap-1"
+                      title="ลบสไลด์"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <ScheduleFields schedule={s.schedule} now={now} onChange={(schedule) => update(s.id, { schedule })} />
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => onSave(draft.map((s) => ({ ...s, seconds: clamp(Math.round(s.seconds), MIN_SLIDE_SECONDS, MAX_SLIDE_SECONDS), zoom: clampZoom(s.zoom || 1), schedule: sanitizeSchedule(s.schedule) })))}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+
+      <FramingDialog
+        target={framing}
+        server={server}
+        onClose={() => setFraming(null)}
+        onSave={(f) => {
+          if (framing) setDraft((p) => p.map((s) => (s.id === framing.id && !isVideoClip(s.content) ? { ...s, content: withFraming(s.content, f) } : s)));
+          setFraming(null);
+        }}
+      />
+    </Dialog>
+  );
+}
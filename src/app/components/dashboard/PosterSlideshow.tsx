@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/app/components/ui/carousel';
+
+import { PosterContentView } from './PosterContentView';
+import type { PosterSlide } from './slides';
+
+const FADE_MS = 700;
+
+// Plays a poster playlist. The shown slide is controlled by the parent (the card's zoom
+// buttons act on it); each slide advances after its own duration and the next one
+// arrives with its own transition. Swipes and the arrow buttons move it by hand.
+export function PosterSlideshow({
+  slides,
+  index,
+  onIndexChange,
+  server,
+}: {
+  slides: PosterSlide[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  server: string | null;
+}) {
+  const [api, setApi] = useState<CarouselApi>();
+  const count = slides.length;
+  const current = Math.min(index, Math.max(0, count - 1));
+  const seconds = slides[current]?.seconds ?? 0;
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  // Only a change of slide moves the carousel; edits to the playlist don't.
+  const slidesRef = useRef(slides);
+  slidesRef.current = slides;
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => onIndexChange(api.selectedScrollSnap());
+    api.on('select', onSelect);
+    return () => { api.off('select', onSelect); };
+  }, [api, onIndexChange]);
+
+  // Adding or removing slides rebuilds the carousel, which keeps its old position.
+  useEffect(() => {
+    if (!api) return;
+    const onReInit = () => {
+      if (api.selectedScrollSnap() !== currentRef.current) api.scrollTo(currentRef.current, true);
+    };
+    api.on('reInit', onReInit);
+    return () => { api.off('reInit', onReInit); };
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || api.selectedScrollSnap() === current) return;
+    const transition = slidesRef.current[current]?.transition ?? 'none';
+    api.scrollTo(current, transition !== 'slide');
+    if (transition === 'fade') {
+      api.slideNodes()[current]?.animate([{ opacity: 0 }, { opacity: 1 }], { duration: FADE_MS, easing: 'ease-out' });
+    }
+  }, [api, current]);
+
+  useEffect(() => {
+    if (count <= 1 || seconds <= 0) return;
+    const t = window.setTimeout(() => onIndexChange((current + 1) % count), seconds * 1000);
+    return () => window.clearTimeout(t);
+  }, [current, count, seconds, onIndexChange]);
+
+  return (
+    <Carousel
+      setApi={setApi}
+      opts={{ loop: count > 1 }}
+      className="h-full w-full [&>[data-slot=carousel-content]]:h-full"
+    >
+      <CarouselContent className="h-full ml-0">
+        {slides.map((slide, i) => (
+          <CarouselItem key={slide.id} className="h-full pl-0 flex items-center justify-center overflow-hidden">
+            <PosterContentView
+              content={slide.content}
+              server={server}
+              alt="Poster"
+              active={i === current}
+              zoom={slide.zoom}
+            />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {count > 1 ? (
+        <>
+          <CarouselPrevious className="left-2 bg-white/80" />
+          <CarouselNext className="right-2 bg-white/80" />
+          <div className="absolute top-2 right-2 rounded-full border border-slate-200 bg-white/85 px-2 py-0.5 text-xs font-extrabold text-slate-700 tabular-nums shadow-sm">
+            {current + 1} / {count}
+          </div>
+        </>
+      ) : null}
+    </Carousel>
+  );
+}
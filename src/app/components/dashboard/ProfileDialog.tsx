@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Copy, ExternalLink } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+
+import { DEFAULT_PROFILE, normalizeProfileName, profileUrl } from './profiles';
+import { cloneProfile, listProfiles, listStoredYears } from './storage';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+export function ProfileDialog({
+  open,
+  profile,
+  onClose,
+}: {
+  open: boolean;
+  profile: string;
+  onClose: () => void;
+}) {
+  const [profiles, setProfiles] = useState<string[]>([]);
+  const [source, setSource] = useState(profile);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setProfiles(listProfiles());
+    setSource(profile);
+    setNewName('');
+    setError('');
+  }, [open, profile]);
+
+  const openProfile = (name: string) => {
+    window.location.href = profileUrl(name);
+  };
+
+  const cloneAndOpen = () => {
+    const name = normalizeProfileName(newName);
+    if (!name) {
+      setError('ชื่อโปรไฟล์ใช้ได้เฉพาะ a-z, 0-9, - และ _ (ไม่เกิน 32 ตัวอักษร)');
+      return;
+    }
+    if (profiles.includes(name)) {
+      setError(`มีโปรไฟล์ "${name}" อยู่แล้ว`);
+      return;
+    }
+    if (!cloneProfile(source, name)) {
+      setError('คัดลอกไม่สำเร็จ (โปรไฟล์ต้นทางไม่มีข้อมูล หรือพื้นที่จัดเก็บเต็ม)');
+      return;
+    }
+    openProfile(name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(720px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Dashboard Profiles</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            แต่ละจอ/อาคารใช้โปรไฟล์ของตัวเองผ่าน URL เช่น <span className="font-mono">?profile=plant2</span> • ข้อมูลแต่ละโปรไฟล์แยกกัน
+          </div>
+        </DialogHeader>
+
+        <ScrollArea className="h-[35vh] rounded-2xl border border-slate-200 bg-slate-50/40 p-3">
+          <div className="space-y-2">
+            {profiles.map((p) => (
+              <div key={p} className={`rounded-2xl border bg-white p-3 shadow-sm flex items-center justify-between gap-2 ${p === profile ? 'border-sky-300 ring-2 ring-sky-100' : 'border-slate-200'}`}>
+                <div className="min-w-0">
+                  <div className="font-extrabold text-slate-900 truncate">{p}{p === profile ? ' (กำลังแสดง)' : ''}</div>
+                  <div className="text-xs font-semibold text-slate-500">
+                    {p === DEFAULT_PROFILE ? 'ไม่ต้องใส่ ?profile' : `?profile=${p}`} • {listStoredYears(p).join(', ') || 'ยังไม่มีข้อมูล'}
+                  </div>
+                </div>
+                {p === profile ? null : (
+                  <button
+                    type="button"
+                    onClick={() => openProfile(p)}
+                    className="px-3 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center gap-2"
+                  >
+                    <ExternalLink className="h-4 w-4" /> เปิด
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-3 space-y-2">
+          <div className="text-sm font-extrabold text-slate-800">สร้างโปรไฟล์ใหม่จากโปรไฟล์เดิม</div>
+          <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'minmax(140px,0.8fr) minmax(160px,1fr) auto' }}>
+            <div>
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">คัดลอกจาก</label>
+              <select value={source} onChange={(e) => setSource(e.target.value)} className={inputCls}>
+                {profiles.map((p) => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">ชื่อโปรไฟล์ใหม่</label>
+              <input value={newName} onChange={(e) => { setNewName(e.target.value); setError(''); }} className={inputCls} placeholder="เช่น plant2" />
+            </div>
+            <button
+              type="button"
+              onClick={cloneAndOpen}
+              disabled={!newName.trim()}
+              className="h-10 px-4 rounded-xl bg-sky-600 text-white font-extrabold hover:bg-sky-700 inline-flex items-center gap-2 disabled:opacity-40"
+            >
+              <Copy className="h-4 w-4" /> Clone &amp; open
+            </button>
+          </div>
+          {error ? <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">{error}</div> : null}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Close</button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { CalendarClock } from 'lucide-react';
+
+import { WEEKDAY_LABELS, createSchedule, isScheduleOver, isScheduled, type Schedule } from './schedule';
+
+const fieldCls = 'w-full rounded-lg border border-slate-200 px-2 py-1.5 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+// Publish window editor shared by the announcement, poster playlist and policy dialogs.
+// A null schedule shows the item all the time; "ตั้งเวลา" opens the fields.
+export function ScheduleFields({
+  schedule,
+  now,
+  onChange,
+}: {
+  schedule: Schedule | null;
+  now: Date;
+  onChange: (schedule: Schedule | null) => void;
+}) {
+  if (!schedule) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(createSchedule())}
+        className="px-2 py-1 rounded-lg border border-slate-200 bg-white text-xs font-extrabold text-slate-600 hover:bg-slate-50 inline-flex items-center gap-1"
+      >
+        <CalendarClock className="h-3.5 w-3.5" /> ตั้งเวลาแสดง
+      </button>
+    );
+  }
+
+  const update = (patch: Partial<Schedule>) => onChange({ ...schedule, ...patch });
+  const live = isScheduled(schedule, now);
+  const over = isScheduleOver(schedule, now);
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-slate-50/60 p-2 space-y-2">
+      <div className="grid gap-2 items-end" style={{ gridTemplateColumns: 'repeat(4, minmax(0, 1fr))' }}>
+        <div>
+          <label className="block text-[11px] font-extrabold text-slate-500 mb-1">แสดงตั้งแต่วันที่</label>
+          <input type="date" value={schedule.from} onChange={(e) => update({ from: e.target.value })} className={fieldCls} />
+        </div>
+        <div>
+          <label className="block text-[11px] font-extrabold text-slate-500 mb-1">ถึงวันที่</label>
+          <input type="date" value={schedule.until} onChange={(e) => update({ until: e.target.value })} className={fieldCls} />
+        </div>
+        <div>
+          <label className="block text-[11px] font-extrabold text-slate-500 mb-1">ตั้งแต่เวลา</label>
+          <input type="time" value={schedule.start} onChange={(e) => update({ start: e.target.value })} className={fieldCls} />
+        </div>
+        <div>
+          <label className="block text-[11px] font-extrabold text-slate-500 mb-1">ถึงเวลา</label>
+          <input type="time" value={schedule.end} onChange={(e) => update({ end: e.target.value })} className={fieldCls} />
+        </div>
+      </div>
+      <div className="flex items-center gap-1 flex-wrap">
+        {WEEKDAY_LABELS.map((label, d) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => update({ days: schedule.days.map((v, i) => (i === d ? !v : v)) })}
+            className={`px-2 py-1 rounded-lg border text-xs font-extrabold ${schedule.days[d] ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-slate-100 text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className={`ml-auto px-2 py-0.5 rounded-full text-[11px] font-extrabold ${live ? 'bg-emerald-100 text-emerald-700' : over ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-800'}`}>
+          {live ? 'กำลังแสดง' : over ? 'หมดเวลาแสดงแล้ว' : 'ยังไม่ถึงเวลาแสดง'}
+        </span>
+        <button type="button" onClick={() => onChange(null)} className="px-2 py-1 rounded-lg text-xs font-extrabold text-slate-500 hover:bg-white" title="ยกเลิกการตั้งเวลา">
+          แสดงตลอด
+        </button>
+      </div>
+    </div>
+  );
+}
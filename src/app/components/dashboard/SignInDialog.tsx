@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { KeyRound } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/app/components/ui/input-otp';
+
+import { accountForPin, createAccount, newSalt, type Account, type AccountStore } from './accounts';
+import { ADMIN_PIN_LENGTH, MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS } from './admin';
+import { useResetOn } from './utils';
+
+const inputCls = 'w-full rounded-xl border border-slate-200 px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+type Step = 'enter' | 'new' | 'confirm';
+
+// Signs in with a personal PIN. With no accounts yet it sets up the first admin instead
+// (`onSetup`), who then adds everyone else in the accounts dialog; `setupAllowed` is
+// false while a configured state server hasn't confirmed that it has none either.
+// The attempt limit lives in this component only: reloading the page resets it, so it
+// slows down guessing at the screen and nothing more.
+export function SignInDialog({
+  open,
+  store,
+  setupAllowed,
+  onClose,
+  onSignIn,
+  onSetup,
+}: {
+  open: boolean;
+  store: AccountStore;
+  setupAllowed: boolean;
+  onClose: () => void;
+  onSignIn: (account: Account, pin: string) => void;
+  onSetup: (store: AccountStore, admin: Account, pin: string) => Promise<string | null>;
+}) {
+  const { accounts } = store;
+  const [step, setStep] = useState<Step>('enter');
+  const [value, setValue] = useState('');
+  const [name, setName] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState('');
+  const [attempts, setAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [checking, setChecking] = useState(false);
+  const [, setTick] = useState(0);
+
+  // Restarts when the dialog opens or the first accounts arrive from the server.
+  const firstStep: Step = accounts.length ? 'enter' : 'new';
+  useResetOn(open && firstStep, () => {
+    setStep(firstStep);
+    setValue('');
+    setName('');
+    setNewPin('');
+    setError('');
+  });
+
+  // Re-render once the lockout is over so the input comes back.
+  useEffect(() => {
+    const left = lockedUntil - Date.now();
+    if (left <= 0) return;
+    const t = window.setTimeout(() => setTick((n) => n + 1), left);
+    return () => window.clearTimeout(t);
+  }, [lockedUntil]);
+
+  const lockedOut = lockedUntil > Date.now();
+
+  const submit = async (pin: string) => {
+    setValue('');
+    if (step === 'enter') {
+      setChecking(true);
+      const account = await accountForPin(store, pin).finally(() => setChecking(false));
+      if (account) {
+        setAttempts(0);
+        onSignIn(account, pin);
+        return;
+      }
+      const next = attempts + 1;
+      if (next >= MAX_PIN_ATTEMPTS) {
+        setAttempts(0);
+        setLockedUntil(Date.now() + PIN_LOCKOUT_MS);
+        setError(`ใส่ PIN ผิด ${MAX_PIN_ATTEMPTS} ครั้ง • รอ ${PIN_LOCKOUT_MS / 1000} วินาทีแล้วลองใหม่`);
+      } else {
+        setAttempts(next);
+        setError(`PIN ไม่ถูกต้อง (เหลือ ${MAX_PIN_ATTEMPTS - next} ครั้ง)`);
+      }
+      return;
+    }
+    if (step === 'new') {
+      setNewPin(pin);
+      setStep('confirm');
+      setError('');
+      return;
+    }
+    if (pin !== newPin) {
+      setStep('new');
+      setNewPin('');
+      setError('PIN สองครั้งไม่ตรงกัน • ตั้งใหม่อีกครั้ง');
+      return;
+    }
+    const salt = store.salt || newSalt();
+    setChecking(true);
+    try {
+      const admin = await createAccount(name.trim() || 'Admin', 'admin', pin, salt);
+      const problem = await onSetup({ ...store, salt, accounts: [admin] }, admin, pin);
+      if (problem) setError(problem);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Accounts may exist on the state server; setting up another first admin here would
+  // replace them.
+  const unavailable = !accounts.length && !setupAllowed;
+
+  const prompt = unavailable
+    ? 'ยังโหลดบัญชีผู้ใช้จากเซิร์ฟเวอร์ไม่ได้ • ตรวจการเชื่อมต่อแล้วลองใหม่'
+    : step === 'enter'
+      ? 'ใส่ PIN ของคุณเพื่อแก้ไขแดชบอร์ดตามสิทธิ์ของบัญชี'
+      : step === 'new'
+        ? 'ยังไม่มีบัญชีผู้ใช้ • สร้างบัญชีผู้ดูแล (Admin) คนแรก'
+        : 'ใส่ PIN อีกครั้งเพื่อยืนยัน';
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(420px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold inline-flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-sky-700" />
+            {step === 'enter' || unavailable ? 'Sign In' : 'Create Admin Account'}
+          </DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">{prompt}</div>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3 py-2">
+          {step === 'new' && !unavailable ? (
+            <div className="w-full">
+              <label className="block text-xs font-extrabold text-slate-500 mb-1">ชื่อ</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputCls} placeholder="เช่น EHS Manager" />
+            </div>
+          ) : null}
+          {unavailable ? null : (
+            <InputOTP
+              key={step}
+              maxLength={ADMIN_PIN_LENGTH}
+              pattern={REGEXP_ONLY_DIGITS}
+              inputMode="numeric"
+              autoFocus={step !== 'new'}
+              disabled={lockedOut || checking}
+              value={value}
+              onChange={setValue}
+              onComplete={(pin: string) => { submit(pin).catch(() => setError('ตรวจสอบ PIN ไม่ได้ • ลองใหม่อีกครั้ง')); }}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: ADMIN_PIN_LENGTH }, (_, i) => (
+                  <InputOTPSlot key={i} index={i} className="h-12 w-11 text-lg font-extrabold bg-white" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          )}
+          {checking ? <div className="text-sm font-bold text-slate-500 text-center">กำลังตรวจสอบ PIN…</div> : null}
+          {error ? <div className="text-sm font-extrabold text-rose-700 text-center">{error}</div> : null}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+
+import { loadImageSettings } from './images';
+import { formatBytes } from './utils';
+import { MAX_VIDEO_BYTES, captureVideoFrame } from './video';
+
+// Checks a clip against the size limit and picks the still frame shown before it plays
+// (and instead of it where it can't). A frame about a second in is taken by default, as
+// clips often open on black.
+export function VideoUploadDialog({
+  file,
+  onClose,
+  onSave,
+}: {
+  file: File | null;
+  onClose: () => void;
+  onSave: (video: File, poster: Blob | null) => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [frameUrl, setFrameUrl] = useState<string | null>(null);
+  const [frame, setFrame] = useState<Blob | null>(null);
+  const [error, setError] = useState('');
+
+  const tooLarge = !!file && file.size > MAX_VIDEO_BYTES;
+
+  useEffect(() => {
+    setFrame(null);
+    setError('');
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const u = URL.createObjectURL(file);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [file]);
+
+  useEffect(() => {
+    if (!frame) {
+      setFrameUrl(null);
+      return;
+    }
+    const u = URL.createObjectURL(frame);
+    setFrameUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [frame]);
+
+  const captureFrame = () => {
+    const el = videoRef.current;
+    if (!el || !el.videoWidth) return;
+    captureVideoFrame(el, loadImageSettings()).then(setFrame, () => setError('จับภาพจากวิดีโอไม่สำเร็จ'));
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent className="w-[min(820px,96vw)] max-w-none">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900 font-extrabold">Upload Video</DialogTitle>
+          <div className="text-sm text-slate-600 font-semibold">
+            เล่นแบบปิดเสียงและวนซ้ำ • หยุดเล่นเมื่อหน้าจอถูกซ่อน • ขนาดไม่เกิน {formatBytes(MAX_VIDEO_BYTES)}
+          </div>
+        </DialogHeader>
+
+        <div className="grid gap-3" style={{ gridTemplateColumns: 'minmax(0,1.5fr) minmax(200px,1fr)' }}>
+          <div className="h-[40vh] rounded-2xl border border-slate-200 bg-slate-900 overflow-hidden flex items-center justify-center">
+            {url ? (
+              <video
+                ref={videoRef}
+                src={url}
+                controls
+                muted
+                playsInline
+                preload="auto"
+                onLoadedMetadata={(e) => { e.currentTarget.currentTime = Math.min(1, (e.currentTarget.duration || 0) / 3); }}
+                onSeeked={() => { if (!frame) captureFrame(); }}
+                onError={() => setError('เบราว์เซอร์นี้เล่นไฟล์วิดีโอนี้ไม่ได้ (แนะนำ MP4 H.264)')}
+                className="max-h-full max-w-full"
+              />
+            ) : null}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <div className="text-xs font-extrabold text-slate-500 mb-1">ภาพปก (แสดงระหว่างโหลดหรือเมื่อเล่นไม่ได้)</div>
+              <div className="h-32 rounded-2xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+                {frameUrl ? <img src={frameUrl} alt="Poster frame" className="max-h-full max-w-full object-contain" /> : <span className="text-sm font-bold text-slate-400">ยังไม่มีภาพปก</span>}
+              </div>
+              <button
+                type="button"
+                onClick={captureFrame}
+                className="mt-2 w-full px-3 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50 inline-flex items-center justify-center gap-2"
+              >
+                <Camera className="h-4 w-4" /> ใช้เฟรมปัจจุบันเป็นภาพปก
+              </button>
+            </div>
+
+            {file ? (
+              <div className={`rounded-2xl border p-3 text-sm font-bold ${tooLarge ? 'border-rose-200 bg-rose-50 text-rose-700' : 'border-slate-200 bg-white text-slate-700'}`}>
+                {file.name} • {formatBytes(file.size)}
+                {tooLarge ? <div className="text-xs mt-1">ไฟล์ใหญ่เกิน {formatBytes(MAX_VIDEO_BYTES)} กรุณาย่อขนาดหรือตัดคลิปให้สั้นลงก่อน</div> : null}
+              </div>
+            ) : null}
+            {error ? <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-bold text-rose-700">{error}</div> : null}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-xl border border-slate-200 bg-white font-extrabold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            disabled={!file || tooLarge}
+            onClick={() => file && onSave(file, frame)}
+            className="px-4 py-2 rounded-xl bg-emerald-600 text-white font-extrabold hover:bg-emerald-700 inline-flex items-center gap-2 disabled:opacity-40"
+          >
+            <Save className="h-4 w-4" /> Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
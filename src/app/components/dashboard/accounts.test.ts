@@ -0,0 +1,132 @@
+import { pbkdf2Sync } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  ACCOUNTS_KEY,
+  accountForPin,
+  adoptLegacyAdminPin,
+  can,
+  createAccount,
+  hashPin,
+  newSalt,
+  parseAccounts,
+  sanitizeAccounts,
+  serializeAccounts,
+  type Account,
+  type AccountStore,
+} from './accounts';
+import type { KdfResponse } from './kdf';
+
+describe('kdf worker', () => {
+  it('matches PBKDF2-HMAC-SHA256', async () => {
+    const replies: KdfResponse[] = [];
+    const scope = { onmessage: null as ((e: { data: unknown }) => void) | null, postMessage: (r: KdfResponse) => replies.push(r) };
+    vi.stubGlobal('self', scope);
+    await import('./kdf.worker');
+    const cases = [['123456', '00ff', 1], ['654321', newSalt(), 1000], ['x'.repeat(80), '', 3]] as const;
+    cases.forEach(([pin, salt, iterations], id) => {
+      scope.onmessage?.({ data: { id, password: new TextEncoder().encode(pin), salt: Buffer.from(salt, 'hex'), iterations } });
+      const expected = pbkdf2Sync(pin, Buffer.from(salt, 'hex'), iterations, 32, 'sha256');
+      expect(replies[id].id).toBe(id);
+      expect(Buffer.from(replies[id].key!)).toEqual(expected);
+    });
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('hashPin', () => {
+  it('is salted PBKDF2', async () => {
+    const salt = newSalt();
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+    const expected = pbkdf2Sync('123456', Buffer.from(salt, 'hex'), 1000, 32, 'sha256').toString('hex');
+    expect(await hashPin('123456', salt, 1000)).toBe(`pbkdf2$1000$${expected}`);
+    expect(await hashPin('123456', newSalt(), 1000)).not.toBe(`pbkdf2$1000$${expected}`);
+  });
+});
+
+describe('accountForPin', () => {
+  it('finds the account by PIN', async () => {
+    const salt = newSalt();
+    const admin = await createAccount('Admin', 'admin', '111111', salt);
+    const clerk = await createAccount('Clerk', 'announcer', '222222', salt);
+    const store: AccountStore = { version: 1, salt, accounts: [admin, clerk] };
+    expect(await accountForPin(store, '222222')).toBe(clerk);
+    expect(await accountForPin(store, '333333')).toBeNull();
+    expect(await accountForPin({ ...store, salt: newSalt() }, '111111')).toBeNull();
+  });
+});
+
+describe('adoptLegacyAdminPin', () => {
+  function stubStorage(entries: Record<string, string>) {
+    const data = new Map(Object.entries(entries));
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => data.get(k) ?? null,
+      setItem: (k: string, v: string) => data.set(k, v),
+      removeItem: (k: string) => data.delete(k),
+    });
+    return data;
+  }
+
+  it('turns the single admin PIN into a PBKDF2 admin account', async () => {
+    const data = stubStorage({ 'safety-dashboard-admin-pin': '123456' });
+    const store = await adoptLegacyAdminPin();
+    expect(store?.accounts).toHaveLength(1);
+    expect(store?.accounts[0].role).toBe('admin');
+    expect(store?.accounts[0].pinHash).toBe(await hashPin('123456', store!.salt));
+    expect(data.has('safety-dashboard-admin-pin')).toBe(false);
+    expect(parseAccounts(data.get(ACCOUNTS_KEY) ?? null)).toEqual(store);
+    vi.unstubAllGlobals();
+  });
+
+  it('leaves existing accounts alone', async () => {
+    const salt = newSalt();
+    const existing = serializeAccounts({ version: 1, salt, accounts: [await createAccount('A', 'admin', '111111', salt)] });
+    const data = stubStorage({ 'safety-dashboard-admin-pin': '123456', [ACCOUNTS_KEY]: existing });
+    expect(await adoptLegacyAdminPin()).toBeNull();
+    expect(data.get(ACCOUNTS_KEY)).toBe(existing);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('sanitizeAccounts', () => {
+  it('drops accounts without a usable hash and unknown roles', () => {
+    const hash = `pbkdf2$1000$${'a'.repeat(64)}`;
+    const store = sanitizeAccounts({
+      version: 3,
+      salt: 'abcd',
+      accounts: [
+        { id: 'a', name: 'A', role: 'admin', pinHash: hash },
+        { id: 'a', name: 'Dup', role: 'admin', pinHash: hash },
+        { id: 'b', role: 'boss', pinHash: hash },
+        { id: 'c', role: 'admin', pinHash: 'plain' },
+        { id: 'd', role: 'admin' },
+        { id: 'e', role: 'admin', pinHash: 'deadbeef' },
+      ],
+    });
+    expect(store.version).toBe(3);
+    expect(store.accounts.map((a) => [a.id, a.role])).toEqual([['a', 'admin'], ['b', 'viewer']]);
+  });
+
+  it('reads lists stored before versions and salts', () => {
+    expect(parseAccounts('{"accounts":[]}')).toEqual({ version: 0, salt: '', accounts: [] });
+    expect(parseAccounts('not json')).toEqual({ version: 0, salt: '', accounts: [] });
+  });
+
+  it('round-trips through serializeAccounts', async () => {
+    const salt = newSalt();
+    const store: AccountStore = { version: 7, salt, accounts: [await createAccount('A', 'safety_officer', '123456', salt)] };
+    expect(parseAccounts(serializeAccounts(store))).toEqual(store);
+  });
+});
+
+describe('can', () => {
+  it('follows the role', () => {
+    const account = (role: Account['role']): Account => ({ id: 'x', name: '', role, pinHash: '' });
+    expect(can(null, 'announcements')).toBe(false);
+    expect(can(account('viewer'), 'announcements')).toBe(false);
+    expect(can(account('announcer'), 'announcements')).toBe(true);
+    expect(can(account('safety_officer'), 'incidents')).toBe(true);
+    expect(can(account('safety_officer'), 'accounts')).toBe(false);
+    expect(can(account('admin'), 'accounts')).toBe(true);
+  });
+});
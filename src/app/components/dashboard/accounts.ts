@@ -0,0 +1,188 @@
+import { clearLegacyAdminPin, legacyAdminPin } from './admin';
+import { pbkdf2Sha256 } from './kdf';
+import { fetchRemoteState, pushRemoteState } from './remote';
+import { uid } from './utils';
+
+// Local user accounts. Each person signs in on a screen with their own PIN, and their
+// role decides which editors they get. The store is shared by every profile and, with
+// a state server, by every screen. PINs are stored as salted PBKDF2 hashes, which makes
+// guessing one from a copy of the store slow; a 6-digit PIN still can't hold out
+// against a determined offline attack, so the store must stay on the local network.
+export type Role = 'viewer' | 'announcer' | 'safety_officer' | 'admin';
+
+export type Permission =
+  | 'announcements' // ticker
+  | 'incidents' // calendar day dialogs
+  | 'metrics'
+  | 'posters' // Poster and Safety Policy cards
+  | 'targets' // target text and formulas
+  | 'calendar' // areas, day classifications, holidays / work week
+  | 'layout' // panel sizes, font size, profiles
+  | 'accounts';
+
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'ดูอย่างเดียว' },
+  { value: 'announcer', label: 'Announcer', description: 'แก้ไขประกาศ' },
+  { value: 'safety_officer', label: 'Safety Officer', description: 'บันทึกเหตุการณ์ แก้ไข Metrics, Poster, Safety Policy และประกาศ' },
+  { value: 'admin', label: 'Admin', description: 'ทุกอย่าง รวมถึงเป้าหมาย/สูตร ปฏิทิน เลย์เอาต์ และบัญชีผู้ใช้' },
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  announcer: ['announcements'],
+  safety_officer: ['announcements', 'incidents', 'metrics', 'posters'],
+  admin: ['announcements', 'incidents', 'metrics', 'posters', 'targets', 'calendar', 'layout', 'accounts'],
+};
+
+export interface Account {
+  id: string;
+  name: string;
+  role: Role;
+  pinHash: string;
+}
+
+// One random salt serves every PIN of the store. PINs differ between accounts anyway, and
+// a sign-in then costs one derivation however many accounts there are.
+export interface AccountStore {
+  version: number; // bumped by every save; the server refuses a save made from an older list
+  salt: string; // hex; empty until the first PIN is hashed
+  accounts: Account[];
+}
+
+export const EMPTY_ACCOUNT_STORE: AccountStore = { version: 0, salt: '', accounts: [] };
+
+export const ACCOUNTS_KEY = 'safety-dashboard-accounts';
+export const PIN_HASH_ITERATIONS = 100000;
+
+// `pbkdf2$<iterations>$<hex>`
+const PIN_HASH_RE = /^pbkdf2\$(\d+)\$([0-9a-f]{64})$/;
+
+export function isRole(v: unknown): v is Role {
+  return ROLES.some((r) => r.value === v);
+}
+
+export function roleLabel(role: Role) {
+  return ROLES.find((r) => r.value === role)?.label ?? role;
+}
+
+export function can(account: Account | null, permission: Permission) {
+  return !!account && ROLE_PERMISSIONS[account.role].includes(permission);
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string) {
+  return new Uint8Array((hex.match(/../g) ?? []).map((b) => parseInt(b, 16)));
+}
+
+// getRandomValues works on plain http pages too, unlike the rest of WebCrypto.
+export function newSalt() {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function hashPin(pin: string, salt: string, iterations = PIN_HASH_ITERATIONS) {
+  return `pbkdf2$${iterations}$${toHex(await pbkdf2Sha256(pin, fromHex(salt), iterations))}`;
+}
+
+export async function createAccount(name: string, role: Role, pin: string, salt: string): Promise<Account> {
+  return { id: uid('user'), name, role, pinHash: await hashPin(pin, salt) };
+}
+
+// The account whose PIN this is, deriving the PIN once per iteration count in use.
+export async function accountForPin(store: AccountStore, pin: string): Promise<Account | null> {
+  const derived = new Map<string, string>();
+  for (const a of store.accounts) {
+    const m = PIN_HASH_RE.exec(a.pinHash);
+    if (!m || !store.salt) continue;
+    if (!derived.has(m[1])) derived.set(m[1], await hashPin(pin, store.salt, Number(m[1])));
+    if (derived.get(m[1]) === a.pinHash) return a;
+  }
+  return null;
+}
+
+export function sanitizeAccounts(raw: unknown): AccountStore {
+  const obj = (raw && typeof raw === 'object' ? raw : {}) as { version?: unknown; salt?: unknown; accounts?: unknown };
+  const version = Number.isInteger(obj.version) && Number(obj.version) > 0 ? Number(obj.version) : 0;
+  const salt = typeof obj.salt === 'string' && /^[0-9a-f]+$/.test(obj.salt) ? obj.salt : '';
+  const list = obj.accounts;
+  if (!Array.isArray(list)) return { version, salt, accounts: [] };
+  const out: Account[] = [];
+  for (const a of list) {
+    if (!a || typeof a !== 'object') continue;
+    const r = a as Record<string, unknown>;
+    if (typeof r.id !== 'string' || !r.id || typeof r.pinHash !== 'string') continue;
+    if (!PIN_HASH_RE.test(r.pinHash)) continue;
+    if (out.some((x) => x.id === r.id)) continue;
+    out.push({
+      id: r.id,
+      name: typeof r.name === 'string' ? r.name : '',
+      role: isRole(r.role) ? r.role : 'viewer',
+      pinHash: r.pinHash,
+    });
+  }
+  return { version, salt, accounts: out };
+}
+
+export function parseAccounts(json: string | null): AccountStore {
+  if (!json) return EMPTY_ACCOUNT_STORE;
+  try {
+    return sanitizeAccounts(JSON.parse(json));
+  } catch {
+    return EMPTY_ACCOUNT_STORE;
+  }
+}
+
+export function serializeAccounts(store: AccountStore) {
+  return JSON.stringify({ version: store.version, salt: store.salt, accounts: store.accounts });
+}
+
+// Accounts stored in this browser.
+export function readLocalAccounts(): AccountStore {
+  try {
+    return parseAccounts(localStorage.getItem(ACCOUNTS_KEY));
+  } catch {
+    return EMPTY_ACCOUNT_STORE;
+  }
+}
+
+// A screen that only had the single admin PIN of earlier versions gets an admin account
+// with that PIN, so it isn't locked out after the update, and the plain PIN is removed.
+// Resolves to the new store, or null when there was nothing to carry over or accounts
+// arrived (from the state server) while the PIN was being hashed.
+export async function adoptLegacyAdminPin(): Promise<AccountStore | null> {
+  const pin = legacyAdminPin();
+  if (!pin || readLocalAccounts().accounts.length) return null;
+  const salt = newSalt();
+  const admin = await createAccount('Admin', 'admin', pin, salt);
+  const store = readLocalAccounts();
+  if (store.accounts.length) return null;
+  const next = { ...store, salt, accounts: [admin] };
+  if (!writeLocalAccounts(next)) return null;
+  clearLegacyAdminPin();
+  return next;
+}
+
+export function writeLocalAccounts(store: AccountStore): boolean {
+  try {
+    localStorage.setItem(ACCOUNTS_KEY, serializeAccounts(store));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The server's copy, or null when it has none yet. Throws when it can't be reached.
+export async function fetchRemoteAccounts(server: string): Promise<AccountStore | null> {
+  const json = await fetchRemoteState(server, ACCOUNTS_KEY);
+  return json === null ? null : parseAccounts(json);
+}
+
+// The server only takes the account list with an admin's id and PIN (see server/index.mjs).
+export interface AccountCredential { id: string; pin: string }
+
+export function pushRemoteAccounts(server: string, store: AccountStore, clientId: string, credential: AccountCredential | null) {
+  const headers: Record<string, string> = credential ? { 'X-Account-Id': credential.id, 'X-Account-Pin': credential.pin } : {};
+  return pushRemoteState(server, ACCOUNTS_KEY, serializeAccounts(store), clientId, headers);
+}
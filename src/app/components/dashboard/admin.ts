@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+
+// Editing on a TV is unlocked by signing in with a PIN and relocks on its own.
+export const ADMIN_PIN_LENGTH = 6;
+export const ADMIN_IDLE_MS = 3 * 60 * 1000;
+// Wrong PINs before the sign-in dialog waits. Counted by the open dialog only: a reload
+// starts over, so this slows guessing at the screen and is no lockout.
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 30 * 1000;
+
+// The single PIN of earlier versions; turned into an admin account (see accounts.ts).
+const LEGACY_PIN_KEY = 'safety-dashboard-admin-pin';
+const PIN_RE = new RegExp(`^\\d{${ADMIN_PIN_LENGTH}}$`);
+
+export function isValidPin(pin: string) {
+  return PIN_RE.test(pin);
+}
+
+export function legacyAdminPin(): string | null {
+  try {
+    const pin = localStorage.getItem(LEGACY_PIN_KEY);
+    return pin && isValidPin(pin) ? pin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearLegacyAdminPin() {
+  try { localStorage.removeItem(LEGACY_PIN_KEY); } catch {}
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Calls `onIdle` once nobody has touched the page for `ms` while `active`.
+export function useIdleTimeout(active: boolean, ms: number, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!active) return;
+    const fire = () => onIdleRef.current();
+    let t = window.setTimeout(fire, ms);
+    const reset = () => {
+      window.clearTimeout(t);
+      t = window.setTimeout(fire, ms);
+    };
+    for (const e of ACTIVITY_EVENTS) window.addEventListener(e, reset, { passive: true });
+    return () => {
+      window.clearTimeout(t);
+      for (const e of ACTIVITY_EVENTS) window.removeEventListener(e, reset);
+    };
+  }, [active, ms]);
+}
@@ -0,0 +1,34 @@
+import { sanitizeSchedule, type Schedule } from './schedule';
+import { uid } from './utils';
+
+export interface Announcement {
+  id: string;
+  text: string;
+  schedule: Schedule | null;
+}
+
+export const DEFAULT_ANNOUNCEMENTS: Announcement[] = [
+  { id: '1', text: 'PPE Audit ประจำสัปดาห์ทุกวันพฤหัสบดี เวลา 09:00 น.', schedule: null },
+  {
+    id: '2',
+    text: 'Emergency Drill ไตรมาสนี้กำหนดวันที่ 28 มีนาคม 2026',
+    schedule: { from: '', until: '2026-03-28', days: Array(7).fill(true), start: '', end: '' },
+  },
+];
+
+export function createAnnouncement(): Announcement {
+  return { id: uid('ann'), text: '', schedule: null };
+}
+
+// Null when nothing usable is stored; the caller falls back to the defaults.
+export function sanitizeAnnouncements(raw: unknown): Announcement[] | null {
+  if (!Array.isArray(raw)) return null;
+  const list = raw
+    .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object' && typeof a.text === 'string' && !!a.text.trim())
+    .map((a) => ({
+      id: typeof a.id === 'string' && a.id ? a.id : uid('ann'),
+      text: (a.text as string).trim(),
+      schedule: sanitizeSchedule(a.schedule),
+    }));
+  return list.length ? list : null;
+}
@@ -0,0 +1,133 @@
+import type { DayStatus, MonthlyData } from './types';
+import { createYearData, isValidMonthlyData } from './calendar';
+import { applyIncidentStatuses, groupIncidentsByDate, type Incident } from './incidents';
+import { classificationOf, type ClassificationMap } from './classifications';
+import { uid } from './utils';
+
+export type AreaKind = 'department' | 'line' | 'contractor';
+
+export interface Area {
+  id: string;
+  name: string;
+  kind: AreaKind;
+}
+
+export const AREA_KINDS: Array<{ value: AreaKind; label: string }> = [
+  { value: 'department', label: 'แผนก' },
+  { value: 'line', label: 'ไลน์ผลิต' },
+  { value: 'contractor', label: 'ผู้รับเหมา' },
+];
+
+// View id of the plant-wide roll-up; never used as an area id.
+export const PLANT_VIEW = 'plant';
+
+export const DEFAULT_AREAS: Area[] = [{ id: 'area-main', name: 'Plant', kind: 'department' }];
+
+// Stored day statuses of every area, keyed by area id.
+export type AreaData = Record<string, MonthlyData[]>;
+
+export function createArea(): Area {
+  return { id: uid('area'), name: '', kind: 'line' };
+}
+
+export function sanitizeAreas(raw: unknown): Area[] | null {
+  if (!Array.isArray(raw)) return null;
+  const list = raw
+    .filter((a): a is Record<string, unknown> & { id: string } => !!a && typeof a === 'object' && typeof a.id === 'string' && !!a.id && a.id !== PLANT_VIEW)
+    .map((a) => ({
+      id: a.id,
+      name: typeof a.name === 'string' ? a.name : '',
+      kind: AREA_KINDS.find((k) => k.value === a.kind)?.value ?? 'department',
+    }));
+  return list.length ? list : null;
+}
+
+// Calendars saved before areas existed (a single `monthlyData`) become the first area's.
+export function loadAreaData(parsed: { areaData?: unknown; monthlyData?: unknown } | null, areas: Area[], year: number): AreaData {
+  const stored = (parsed && typeof parsed.areaData === 'object' && parsed.areaData ? parsed.areaData : {}) as Record<string, unknown>;
+  const out: AreaData = {};
+  areas.forEach((a, idx) => {
+    const data = stored[a.id] ?? (idx === 0 ? parsed?.monthlyData : undefined);
+    out[a.id] = isValidMonthlyData(data, year) ? data : createYearData(year);
+  });
+  return out;
+}
+
+export function mapAreaData(data: AreaData, fn: (months: MonthlyData[], areaId: string) => MonthlyData[]): AreaData {
+  let changed = false;
+  const out: AreaData = {};
+  for (const id of Object.keys(data)) {
+    out[id] = fn(data[id], id);
+    if (out[id] !== data[id]) changed = true;
+  }
+  return changed ? out : data;
+}
+
+// Sets the stored status of one area's day, or of every area's in the plant view.
+export function withDayStatus(data: AreaData, view: string, monthIdx: number, day: number, status: DayStatus): AreaData {
+  return mapAreaData(data, (months, areaId) => {
+    if (view !== PLANT_VIEW && areaId !== view) return months;
+    const next = months.map((mm) => ({ ...mm, days: mm.days.map((dd) => ({ ...dd })) }));
+    const month = next[monthIdx];
+    if (!month) return months;
+    const target = month.days[day - 1];
+    if (!target) return months;
+    target.status = status;
+    return next;
+  });
+}
+
+// Worst status of a day across areas: incident classifications above SAFE win, then an
+// area still NOT SET, then SAFE; the day is only non-working when every area was off.
+export function rollUpDayStatus(statuses: DayStatus[], byId: ClassificationMap): DayStatus {
+  if (!statuses.length) return null;
+  const notSetRank = classificationOf('safe', byId).rank + 0.5;
+  let worst: DayStatus = 'non_working';
+  let worstRank = -Infinity;
+  for (const st of statuses) {
+    if (st === 'non_working') continue;
+    const rank = st === null ? notSetRank : classificationOf(st, byId).rank;
+    if (rank > worstRank) {
+      worst = st;
+      worstRank = rank;
+    }
+  }
+  return worst;
+}
+
+export function rollUpCalendars(calendars: MonthlyData[][], byId: ClassificationMap, year: number): MonthlyData[] {
+  if (calendars.length === 1) return calendars[0];
+  return createYearData(year).map((mm, m) => ({
+    ...mm,
+    days: mm.days.map((dd, i) => ({
+      ...dd,
+      status: rollUpDayStatus(calendars.map((c) => c[m]?.days?.[i]?.status ?? null), byId),
+    })),
+  }));
+}
+
+export function incidentsInView(incidents: Incident[], view: string) {
+  return view === PLANT_VIEW ? incidents : incidents.filter((i) => i.areaId === view);
+}
+
+// Calendar as shown for an area, or for the plant when `view` is PLANT_VIEW: stored
+// statuses with each area's own incidents applied.
+export function viewCalendar(
+  data: AreaData,
+  areas: Area[],
+  view: string,
+  incidents: Incident[],
+  byId: ClassificationMap,
+  year: number,
+): MonthlyData[] {
+  const areaCalendar = (areaId: string) =>
+    applyIncidentStatuses(data[areaId] ?? createYearData(year), groupIncidentsByDate(incidentsInView(incidents, areaId)), byId);
+  if (view !== PLANT_VIEW) return areaCalendar(view);
+  return rollUpCalendars(areas.map((a) => areaCalendar(a.id)), byId, year);
+}
+
+// Stored (manual / auto SAFE) statuses without incidents, rolled up for the plant view.
+export function viewStoredCalendar(data: AreaData, areas: Area[], view: string, byId: ClassificationMap, year: number): MonthlyData[] {
+  if (view !== PLANT_VIEW) return data[view] ?? createYearData(year);
+  return rollUpCalendars(areas.map((a) => data[a.id] ?? createYearData(year)), byId, year);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyAutoSafe, createYearData } from './calendar';
+import type { Shift } from './shifts';
+import type { DayStatus, MonthlyData } from './types';
+
+const night: Shift[] = [{ id: 'night', name: 'Night', start: '22:00', end: '06:00' }];
+const everyDay = () => true;
+
+function statusOn(data: MonthlyData[], month: number, day: number): DayStatus {
+  return data[month].days[day - 1].status;
+}
+
+describe('applyAutoSafe', () => {
+  it('closes a night-shift day once its shift ends the next morning', () => {
+    const year = createYearData(2026);
+    const before = applyAutoSafe(year, new Date(2026, 5, 11, 5, 59), 2026, everyDay, night);
+    expect(statusOn(before, 5, 9)).toBe('safe');
+    expect(statusOn(before, 5, 10)).toBeNull();
+    expect(statusOn(applyAutoSafe(year, new Date(2026, 5, 11, 6, 0), 2026, everyDay, night), 5, 10)).toBe('safe');
+  });
+
+  it('closes 31 December when the night shift ends on 1 January', () => {
+    const year = createYearData(2026);
+    const night31 = applyAutoSafe(year, new Date(2027, 0, 1, 5, 59), 2026, everyDay, night);
+    expect(statusOn(night31, 11, 30)).toBe('safe');
+    expect(statusOn(night31, 11, 31)).toBeNull();
+    const closed = applyAutoSafe(night31, new Date(2027, 0, 1, 6, 0), 2026, everyDay, night);
+    expect(statusOn(closed, 11, 31)).toBe('safe');
+    expect(closed.every((m) => m.days.every((d) => d.status !== null))).toBe(true);
+  });
+
+  it('leaves a year that has not started alone', () => {
+    const year = createYearData(2027);
+    expect(applyAutoSafe(year, new Date(2027, 0, 1, 5, 59), 2027, everyDay, night)).toBe(year);
+  });
+});
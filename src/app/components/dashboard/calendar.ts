@@ -0,0 +1,48 @@
+import type { MonthlyData } from './types';
+import { shiftClock, type Shift } from './shifts';
+
+export function createYearData(year:number): MonthlyData[] {
+  return Array.from({length:12}, (_,m)=> ({
+    month:m, year,
+    days: Array.from({length:new Date(year,m+1,0).getDate()},(_,i)=>({day:i+1,status:null}))
+  }));
+}
+
+export function isValidMonthlyData(data: unknown, year:number): data is MonthlyData[] {
+  return Array.isArray(data) && data.length===12 && data.every((m, idx)=>
+    m && m.month===idx && m.year===year && Array.isArray(m.days) && m.days.length===new Date(year, idx+1, 0).getDate()
+  );
+}
+
+// Past production days (and the current one once its last shift has ended) that are
+// still NOT SET become SAFE, or NON-WORKING when `isWorking` says the plant was off. Once
+// the production day has moved into the next year, every day of `year` is past.
+export function applyAutoSafe(prev: MonthlyData[], now: Date, year: number, isWorking: (d: Date) => boolean, shifts: Shift[]): MonthlyData[] {
+  const { day: today, afterCutoff } = shiftClock(now, shifts);
+  if (today.getFullYear() < year) return prev;
+
+  let next: MonthlyData[] | null = null;
+  const ensureNext = () => {
+    if (!next) next = prev.map((mm) => ({ ...mm, days: mm.days.map((dd) => ({ ...dd })) }));
+    return next;
+  };
+
+  let changed = false;
+
+  for (let m = 0; m < 12; m++) {
+    const month = prev[m];
+    if (!month) continue;
+    for (let i = 0; i < month.days.length; i++) {
+      const dd = month.days[i];
+      if (dd.status !== null) continue;
+      const dt = new Date(year, m, dd.day);
+      if (dt < today || (afterCutoff && dt.getTime() === today.getTime())) {
+        const tgt = ensureNext()[m].days[i];
+        tgt.status = isWorking(dt) ? 'safe' : 'non_working';
+        changed = true;
+      }
+    }
+  }
+
+  return changed && next ? next : prev;
+}
@@ -0,0 +1,118 @@
+import type { CSSProperties } from 'react';
+import { uid } from './utils';
+
+export type DayIconKey = 'check' | 'alert' | 'bandage' | 'heart' | 'ambulance' | 'flame' | 'leaf' | 'droplet' | 'siren' | 'shield' | 'tag';
+
+export const DAY_ICON_KEYS: Array<{ value: DayIconKey; label: string }> = [
+  { value: 'check', label: 'Check' },
+  { value: 'alert', label: 'Warning' },
+  { value: 'bandage', label: 'Bandage' },
+  { value: 'heart', label: 'Heart' },
+  { value: 'ambulance', label: 'Ambulance' },
+  { value: 'flame', label: 'Flame' },
+  { value: 'leaf', label: 'Leaf' },
+  { value: 'droplet', label: 'Droplet' },
+  { value: 'siren', label: 'Siren' },
+  { value: 'shield', label: 'Shield' },
+  { value: 'tag', label: 'Tag' },
+];
+
+export interface DayClassification {
+  id: string; // stored as the day status / incident kind
+  label: string;
+  color: string; // #rrggbb
+  icon: DayIconKey;
+  rank: number; // higher = more severe; the worst incident of a day colours it
+  breaksStreak: boolean;
+  lostTime: boolean; // counts as a lost-time injury in IFR / ISR
+  builtIn?: boolean;
+}
+
+// Built-in ids match the three statuses stored before the taxonomy existed, so older
+// calendars and incident logs load unchanged.
+export const BUILT_IN_CLASSIFICATION_IDS = ['safe', 'near_miss', 'accident'];
+
+export const DEFAULT_DAY_CLASSIFICATIONS: DayClassification[] = [
+  { id: 'safe', label: 'SAFE', color: '#10b981', icon: 'check', rank: 0, breaksStreak: false, lostTime: false, builtIn: true },
+  { id: 'near_miss', label: 'NEAR MISS', color: '#f59e0b', icon: 'alert', rank: 10, breaksStreak: false, lostTime: false, builtIn: true },
+  { id: 'first_aid', label: 'FIRST AID', color: '#0ea5e9', icon: 'bandage', rank: 20, breaksStreak: false, lostTime: false },
+  { id: 'environment', label: 'ENVIRONMENT', color: '#65a30d', icon: 'leaf', rank: 25, breaksStreak: false, lostTime: false },
+  { id: 'non_absent', label: 'NON-ABSENT', color: '#8b5cf6', icon: 'heart', rank: 30, breaksStreak: false, lostTime: false },
+  { id: 'fire', label: 'FIRE', color: '#f97316', icon: 'flame', rank: 40, breaksStreak: true, lostTime: false },
+  { id: 'accident', label: 'ACCIDENT', color: '#e11d48', icon: 'alert', rank: 50, breaksStreak: true, lostTime: true, builtIn: true },
+  { id: 'absent', label: 'ABSENT', color: '#9f1239', icon: 'ambulance', rank: 60, breaksStreak: true, lostTime: true },
+];
+
+export type ClassificationMap = Record<string, DayClassification>;
+
+export function classificationsById(list: DayClassification[]): ClassificationMap {
+  const out: ClassificationMap = {};
+  for (const c of list) out[c.id] = c;
+  return out;
+}
+
+// Days or incidents tagged with a classification that was since deleted still render,
+// and are treated as streak-breaking to stay on the safe side, but not as lost-time injuries.
+export function classificationOf(id: string, byId: ClassificationMap): DayClassification {
+  return byId[id] ?? { id, label: id.toUpperCase(), color: '#64748b', icon: 'tag', rank: 0, breaksStreak: true, lostTime: false };
+}
+
+export function compareClassifications(a: DayClassification, b: DayClassification) {
+  return a.rank - b.rank || a.label.localeCompare(b.label);
+}
+
+// Everything but SAFE can be logged as an incident.
+export function incidentKinds(list: DayClassification[]) {
+  return list.filter((c) => c.id !== 'safe').sort(compareClassifications);
+}
+
+export function createClassification(rank: number): DayClassification {
+  return { id: uid('cls'), label: '', color: '#64748b', icon: 'tag', rank, breaksStreak: false, lostTime: false };
+}
+
+const HEX_RE = /^#[0-9a-f]{6}$/i;
+const LOST_TIME_IDS = DEFAULT_DAY_CLASSIFICATIONS.filter((c) => c.lostTime).map((c) => c.id);
+
+export function sanitizeClassifications(raw: unknown): DayClassification[] {
+  const list: DayClassification[] = [];
+  if (Array.isArray(raw)) {
+    for (const c of raw as unknown[]) {
+      if (!c || typeof c !== 'object') continue;
+      const r = c as Record<string, unknown>;
+      const id = r.id;
+      if (typeof id !== 'string' || !id || list.some((x) => x.id === id)) continue;
+      list.push({
+        id,
+        label: typeof r.label === 'string' && r.label.trim() ? r.label : id.toUpperCase(),
+        color: typeof r.color === 'string' && HEX_RE.test(r.color) ? r.color : '#64748b',
+        icon: DAY_ICON_KEYS.find((k) => k.value === r.icon)?.value ?? 'tag',
+        rank: Number.isFinite(Number(r.rank)) ? Number(r.rank) : 0,
+        breaksStreak: !!r.breaksStreak,
+        // Lists stored before the flag existed: ACCIDENT and ABSENT are the lost-time injuries.
+        lostTime: typeof r.lostTime === 'boolean' ? r.lostTime : LOST_TIME_IDS.includes(id),
+        ...(BUILT_IN_CLASSIFICATION_IDS.includes(id) ? { builtIn: true } : {}),
+      });
+    }
+  }
+  if (!list.length) return DEFAULT_DAY_CLASSIFICATIONS;
+  for (const id of BUILT_IN_CLASSIFICATION_IDS) {
+    if (!list.some((c) => c.id === id)) list.push(DEFAULT_DAY_CLASSIFICATIONS.find((c) => c.id === id)!);
+  }
+  return list.sort(compareClassifications);
+}
+
+// Tinted cell / badge colours derived from a classification's base colour.
+export function classificationCellStyle(color: string): CSSProperties {
+  return {
+    borderColor: `color-mix(in oklab, ${color} 35%, white)`,
+    background: `color-mix(in oklab, ${color} 10%, white)`,
+  };
+}
+
+export function classificationBadgeStyle(color: string): CSSProperties {
+  return {
+    color: `color-mix(in oklab, ${color} 75%, black)`,
+    borderColor: `color-mix(in oklab, ${color} 40%, white)`,
+    background: `color-mix(in oklab, ${color} 20%, white)`,
+  };
+}
@@ -0,0 +1,18 @@
+export function toISODate(d: Date) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+// Parses a YYYY-MM-DD string as a local date; returns null for anything else.
+export function fromISODate(iso: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso || '');
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return toISODate(d) === iso ? d : null;
+}
+
+export function formatShortDate(d: Date) {
+  return d.toLocaleDateString([], { day: '2-digit', month: 'short', year: 'numeric' });
+}
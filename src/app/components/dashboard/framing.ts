@@ -0,0 +1,116 @@
+import { clamp } from './utils';
+
+// How an image sits in its card: the part of it that's kept (crop), how that part is
+// sized to the card (fit) and where it's moved to when it's larger than the card (pan).
+// Crop and pan are fractions, so the framing carries over to screens of another size.
+export type FitMode = 'contain' | 'width' | 'height' | 'fill';
+
+export const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'contain', label: 'พอดีกรอบ' },
+  { value: 'width', label: 'เต็มความกว้าง' },
+  { value: 'height', label: 'เต็มความสูง' },
+  { value: 'fill', label: 'เต็มกรอบ' },
+];
+
+export interface CropRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Framing {
+  fit: FitMode;
+  crop: CropRect | null; // null keeps the whole image
+  panX: number; // offset as a fraction of the shown width; positive moves the image right
+  panY: number;
+}
+
+export const DEFAULT_FRAMING: Framing = { fit: 'contain', crop: null, panX: 0, panY: 0 };
+
+const FULL_CROP: CropRect = { x: 0, y: 0, w: 1, h: 1 };
+const MIN_CROP = 0.05;
+
+export type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Moves the whole rectangle or drags one corner by (dx, dy), keeping it inside the image.
+export function dragCrop(start: CropRect, handle: CropHandle, dx: number, dy: number): CropRect {
+  if (handle === 'move') {
+    return { ...start, x: clamp(start.x + dx, 0, 1 - start.w), y: clamp(start.y + dy, 0, 1 - start.h) };
+  }
+  let l = start.x;
+  let t = start.y;
+  let r = start.x + start.w;
+  let b = start.y + start.h;
+  if (handle === 'nw' || handle === 'sw') l = clamp(l + dx, 0, r - MIN_CROP);
+  else r = clamp(r + dx, l + MIN_CROP, 1);
+  if (handle === 'nw' || handle === 'ne') t = clamp(t + dy, 0, b - MIN_CROP);
+  else b = clamp(b + dy, t + MIN_CROP, 1);
+  return { x: l, y: t, w: r - l, h: b - t };
+}
+
+function sanitizeCrop(raw: unknown): CropRect | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const n = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : NaN);
+  const x = clamp(n(r.x), 0, 1 - MIN_CROP);
+  const y = clamp(n(r.y), 0, 1 - MIN_CROP);
+  const w = clamp(n(r.w), MIN_CROP, 1 - x);
+  const h = clamp(n(r.h), MIN_CROP, 1 - y);
+  if ([x, y, w, h].some(Number.isNaN)) return null;
+  return x < 0.001 && y < 0.001 && w > 0.999 && h > 0.999 ? null : { x, y, w, h };
+}
+
+// Null for the default framing, so untouched images store nothing.
+export function sanitizeFraming(raw: unknown): Framing | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const pan = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? clamp(v, -1, 1) : 0);
+  const f: Framing = {
+    fit: FIT_MODES.some((m) => m.value === r.fit) ? (r.fit as FitMode) : 'contain',
+    crop: sanitizeCrop(r.crop),
+    panX: pan(r.panX),
+    panY: pan(r.panY),
+  };
+  return f.fit === 'contain' && !f.crop && !f.panX && !f.panY ? null : f;
+}
+
+export interface Size {
+  w: number;
+  h: number;
+}
+
+// Where the kept part of the image goes in a `box`-sized card (region) and where the
+// full image sits inside that region, in pixels. `maxPanX`/`maxPanY` are how far the
+// region may move before its edge comes into view, as pan fractions.
+export function layoutFrame(box: Size, natural: Size, framing: Framing, zoom: number) {
+  const crop = framing.crop ?? FULL_CROP;
+  const sw = natural.w * crop.w;
+  const sh = natural.h * crop.h;
+  const fx = box.w / sw;
+  const fy = box.h / sh;
+  const base = framing.fit === 'width' ? fx : framing.fit === 'height' ? fy : framing.fit === 'fill' ? Math.max(fx, fy) : Math.min(fx, fy);
+  const scale = base * zoom;
+  const width = sw * scale;
+  const height = sh * scale;
+  const maxPanX = Math.max(0, (width - box.w) / 2) / width;
+  const maxPanY = Math.max(0, (height - box.h) / 2) / height;
+  return {
+    left: (box.w - width) / 2 + clamp(framing.panX, -maxPanX, maxPanX) * width,
+    top: (box.h - height) / 2 + clamp(framing.panY, -maxPanY, maxPanY) * height,
+    width,
+    height,
+    imgLeft: -crop.x * natural.w * scale,
+    imgTop: -crop.y * natural.h * scale,
+    imgWidth: natural.w * scale,
+    imgHeight: natural.h * scale,
+    maxPanX,
+    maxPanY,
+  };
+}
+
+// Width / height of the element a framing is being chosen for, so the editor previews
+// the card's actual shape.
+export function frameAspect(el: HTMLElement | null) {
+  return el && el.clientWidth && el.clientHeight ? el.clientWidth / el.clientHeight : 3 / 4;
+}
@@ -0,0 +1,142 @@
+import { fromISODate, toISODate } from './dates';
+import { uid } from './utils';
+
+export type HolidayKind = 'public' | 'shutdown' | 'event';
+
+export interface Holiday {
+  id: string;
+  date: string; // ISO YYYY-MM-DD
+  note: string;
+  kind: HolidayKind;
+}
+
+export const HOLIDAY_KINDS: Array<{ value: HolidayKind; label: string }> = [
+  { value: 'public', label: 'Public holiday' },
+  { value: 'shutdown', label: 'Company shutdown' },
+  { value: 'event', label: 'Event' },
+];
+
+// Company calendar shipped with the dashboard; admins maintain later years in the Holiday manager.
+const SEED_2026: Array<[string, string, HolidayKind]> = [
+  ['2026-01-01', "NEW YEAR'S DAY", 'public'],
+  ['2026-01-02', "NEW YEAR'S DAY", 'public'],
+  ['2026-02-22', 'LABOUR UNION MEETING', 'event'],
+  ['2026-03-02', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-03-03', 'MAKHABUCHA DAY', 'public'],
+  ['2026-04-13', 'SONGKRAN DAY', 'public'],
+  ['2026-04-14', 'SONGKRAN DAY', 'public'],
+  ['2026-04-15', 'SONGKRAN DAY', 'public'],
+  ['2026-04-16', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-04-17', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-05-01', 'NATIONAL LABOUR DAY', 'public'],
+  ['2026-05-04', 'CORONATION DAY', 'public'],
+  ['2026-06-01', 'SUBSTITUTE VISAKHABUCHA DAY', 'public'],
+  ['2026-06-02', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-06-03', "H.M. THE QUEEN'S BIRTHDAY", 'public'],
+  ['2026-07-27', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-07-28', "H.M. THE KING'S BIRTHDAY", 'public'],
+  ['2026-07-29', 'A-SARNHA BUCHA DAY', 'public'],
+  ['2026-08-12', "MOTHER'S DAY", 'public'],
+  ['2026-10-12', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-10-13', 'RAMA IX MEMORIAL DAY', 'public'],
+  ['2026-10-23', 'KING CHULALONGKORN DAY', 'public'],
+  ['2026-12-07', 'SUBSTITUTE NATION DAY', 'public'],
+  ['2026-12-20', 'Party', 'event'],
+  ['2026-12-28', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-12-29', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-12-30', 'วันหยุดพิเศษ', 'shutdown'],
+  ['2026-12-31', "NEW YEAR'S EVE", 'public'],
+];
+
+export const DEFAULT_HOLIDAYS: Holiday[] = SEED_2026.map(([date, note, kind]) => ({ id: `h-${date}`, date, note, kind }));
+
+// Events are noted on the calendar but are still working days.
+export function isDayOff(h: Holiday | undefined) {
+  return !!h && h.kind !== 'event';
+}
+
+export function holidaysByDate(list: Holiday[]): Record<string, Holiday> {
+  const out: Record<string, Holiday> = {};
+  for (const h of list) out[h.date] = h;
+  return out;
+}
+
+// ISO date -> note, for the days the plant does not work.
+export function dayOffNotes(list: Holiday[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const h of list) if (isDayOff(h)) out[h.date] = h.note;
+  return out;
+}
+
+export function compareHolidays(a: Holiday, b: Holiday) {
+  return a.date.localeCompare(b.date);
+}
+
+export function createHoliday(date: string): Holiday {
+  return { id: uid('h'), date, note: '', kind: 'public' };
+}
+
+// Same month/day in `toYear` for every entry of `fromYear` whose date is still free.
+// Feb 29 has no counterpart in a common year and is skipped.
+export function copyHolidaysForward(list: Holiday[], fromYear: number, toYear: number): Holiday[] {
+  const taken = new Set(list.map((h) => h.date));
+  const added: Holiday[] = [];
+  for (const h of list) {
+    if (!h.date.startsWith(`${fromYear}-`)) continue;
+    const date = `${toYear}${h.date.slice(4)}`;
+    if (!fromISODate(date) || taken.has(date)) continue;
+    taken.add(date);
+    added.push({ ...h, id: uid('h'), date });
+  }
+  return [...list, ...added];
+}
+
+export function sanitizeHolidays(raw: unknown): Holiday[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw
+    .filter((h): h is Record<string, unknown> & { date: string } => !!h && typeof h === 'object' && typeof h.date === 'string' && !!fromISODate(h.date))
+    .map((h) => ({
+      id: typeof h.id === 'string' ? h.id : uid('h'),
+      date: toISODate(fromISODate(h.date)!),
+      note: typeof h.note === 'string' ? h.note : '',
+      kind: h.kind === 'shutdown' || h.kind === 'event' ? h.kind : 'public',
+    }));
+}
+
+export type HolidayImportAction = 'add' | 'overwrite' | 'unchanged';
+
+export interface HolidayImportRow {
+  date: string;
+  note: string;
+  kind: HolidayKind;
+  action: HolidayImportAction;
+  previous?: Holiday;
+}
+
+// What importing `incoming` would do to `list`; later duplicates of a date win.
+export function previewHolidayImport(list: Holiday[], incoming: Array<Pick<Holiday, 'date' | 'note' | 'kind'>>): HolidayImportRow[] {
+  const existing = holidaysByDate(list);
+  const byDate = new Map<string, Pick<Holiday, 'date' | 'note' | 'kind'>>();
+  for (const h of incoming) byDate.set(h.date, h);
+  return Array.from(byDate.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((h) => {
+      const previous = existing[h.date];
+      const action: HolidayImportAction = !previous
+        ? 'add'
+        : previous.note === h.note && previous.kind === h.kind ? 'unchanged' : 'overwrite';
+      return { ...h, action, previous };
+    });
+}
+
+export function applyHolidayImport(list: Holiday[], rows: HolidayImportRow[]): Holiday[] {
+  const changes = new Map(rows.filter((r) => r.action !== 'unchanged').map((r) => [r.date, r]));
+  const next = list.map((h) => {
+    const r = changes.get(h.date);
+    if (!r) return h;
+    changes.delete(h.date);
+    return { ...h, note: r.note, kind: r.kind };
+  });
+  for (const r of changes.values()) next.push({ id: uid('h'), date: r.date, note: r.note, kind: r.kind });
+  return next.sort(compareHolidays);
+}
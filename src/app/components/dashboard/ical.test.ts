@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { holidaysToIcs, parseIcsHolidays } from './ical';
+
+function calendar(...events: string[][]) {
+  return ['BEGIN:VCALENDAR', ...events.flatMap((e) => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseIcsHolidays', () => {
+  it('reads all-day events and skips timed ones', () => {
+    const text = calendar(
+      ['DTSTART;VALUE=DATE:20260413', 'DTEND;VALUE=DATE:20260416', 'SUMMARY:Songkran', 'CATEGORIES:PUBLIC'],
+      ['DTSTART:20260501T090000Z', 'SUMMARY:Meeting'],
+    );
+    const parsed = parseIcsHolidays(text, 2026);
+    expect(parsed.holidays.map((h) => h.date)).toEqual(['2026-04-13', '2026-04-14', '2026-04-15']);
+    expect(parsed.holidays[0]).toMatchObject({ note: 'Songkran', kind: 'public' });
+    expect(parsed.skipped).toBe(1);
+  });
+
+  it('unescapes text, including backslashes', () => {
+    const text = calendar(['DTSTART;VALUE=DATE:20260101', 'SUMMARY:A\\, B\\; C\\\\D\\nE']);
+    expect(parseIcsHolidays(text, 2026).holidays[0].note).toBe('A, B; C\\D E');
+  });
+
+  it('unfolds continued lines', () => {
+    const text = calendar(['DTSTART;VALUE=DATE:20260101', 'SUMMARY:New', ' Year']);
+    expect(parseIcsHolidays(text, 2026).holidays[0].note).toBe('NewYear');
+  });
+
+  it('keeps spans inside the target year', () => {
+    const text = calendar(
+      ['DTSTART;VALUE=DATE:20261230', 'DTEND;VALUE=DATE:20270103', 'SUMMARY:Shutdown', 'CATEGORIES:SHUTDOWN'],
+      ['DTSTART;VALUE=DATE:20260601', 'DTEND;VALUE=DATE:20990101', 'SUMMARY:Typo'],
+      ['DTSTART;VALUE=DATE:20250101', 'SUMMARY:Last year'],
+    );
+    const in2027 = parseIcsHolidays(text, 2027);
+    expect(in2027.holidays.filter((h) => h.note === 'Shutdown').map((h) => h.date)).toEqual(['2027-01-01', '2027-01-02']);
+    expect(in2027.holidays.filter((h) => h.note === 'Typo')).toHaveLength(365);
+    expect(in2027.outside).toBe(1);
+
+    const in2026 = parseIcsHolidays(text, 2026);
+    expect(in2026.holidays.filter((h) => h.note === 'Shutdown').map((h) => h.date)).toEqual(['2026-12-30', '2026-12-31']);
+    expect(in2026.holidays.filter((h) => h.note === 'Typo').at(-1)?.date).toBe('2026-12-31');
+  });
+});
+
+describe('holidaysToIcs', () => {
+  it('round-trips through the parser', () => {
+    const list = [
+      { id: 'h1', date: '2026-05-01', note: 'Labour Day, 1\\2; ok', kind: 'public' as const },
+      { id: 'h2', date: '2026-12-31', note: 'ปิดโรงงานสิ้นปี '.repeat(6).trim(), kind: 'shutdown' as const },
+    ];
+    const ics = holidaysToIcs(list, new Date(Date.UTC(2026, 0, 1)));
+    expect(ics.split('\r\n').every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    const parsed = parseIcsHolidays(ics, 2026);
+    expect(parsed.holidays).toEqual(list.map(({ date, note, kind }) => ({ date, note, kind })));
+  });
+});
@@ -0,0 +1,127 @@
+import { fromISODate, toISODate } from './dates';
+import type { Holiday, HolidayKind } from './holidays';
+
+export interface IcsHoliday { date: string; note: string; kind: HolidayKind }
+
+export interface IcsParseResult {
+  holidays: IcsHoliday[];
+  skipped: number; // VEVENTs that are not all-day
+  outside: number; // all-day VEVENTs with no date in the target year
+}
+
+// RFC 5545: a line starting with a space or tab continues the previous one.
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeText(v: string) {
+  return v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? ' ' : c)).trim();
+}
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+function parseDateValue(params: string, value: string): Date | null {
+  const isDate = /VALUE=DATE(?!-)/i.test(params) || /^\d{8}$/.test(value);
+  const m = /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+  if (!isDate || !m) return null;
+  return fromISODate(`${m[1]}-${m[2]}-${m[3]}`);
+}
+
+function kindFromCategories(categories: string): HolidayKind {
+  const c = categories.toLowerCase();
+  if (c.includes('shutdown')) return 'shutdown';
+  if (c.includes('event')) return 'event';
+  return 'public';
+}
+
+// All-day VEVENTs become one holiday per covered date (DTEND is exclusive), keeping
+// only the dates inside `year` so a long or mistyped DTEND can't run on for years.
+export function parseIcsHolidays(text: string, year: number): IcsParseResult {
+  const holidays: IcsHoliday[] = [];
+  let skipped = 0;
+  let outside = 0;
+  const yearStart = new Date(year, 0, 1);
+  const yearEnd = new Date(year + 1, 0, 1);
+  let ev: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of unfold(text)) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) { ev = {}; continue; }
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const start = ev?.DTSTART ? parseDateValue(ev.DTSTART.params, ev.DTSTART.value) : null;
+      if (!ev || !start) {
+        skipped += 1;
+      } else {
+        const endExcl = ev.DTEND ? parseDateValue(ev.DTEND.params, ev.DTEND.value) : null;
+        const note = ev.SUMMARY ? unescapeText(ev.SUMMARY.value) : '';
+        const kind = kindFromCategories(ev.CATEGORIES?.value ?? '');
+        const last = endExcl && endExcl > start ? endExcl : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+        const stop = last < yearEnd ? last : yearEnd;
+        const dt = new Date(start < yearStart ? yearStart : start);
+        if (dt >= stop) outside += 1;
+        for (; dt < stop; dt.setDate(dt.getDate() + 1)) {
+          holidays.push({ date: toISODate(dt), note, kind });
+        }
+      }
+      ev = null;
+      continue;
+    }
+    if (!ev) continue;
+    const m = /^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (m) ev[m[1].toUpperCase()] = { params: m[2], value: m[3] };
+  }
+  return { holidays, skipped, outside };
+}
+
+// Folds at 75 octets without splitting a multi-byte character.
+function fold(line: string): string {
+  const enc = new TextEncoder();
+  const parts: string[] = [];
+  let cur = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    if (bytes + n > (parts.length ? 74 : 75)) {
+      parts.push(cur);
+      cur = '';
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  parts.push(cur);
+  return parts.join('\r\n ');
+}
+
+function icsDate(d: Date) {
+  return toISODate(d).replace(/-/g, '');
+}
+
+export function holidaysToIcs(list: Holiday[], stamp = new Date()): string {
+  const dtstamp = stamp.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NHK Spring (Thailand)//Safety Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  for (const h of list) {
+    const start = fromISODate(h.date);
+    if (!start) continue;
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${h.id}@safety-dashboard`,
+      `DTSTAMP:${dtstamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(end)}`,
+      `SUMMARY:${escapeText(h.note)}`,
+      `CATEGORIES:${h.kind.toUpperCase()}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
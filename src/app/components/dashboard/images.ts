@@ -0,0 +1,178 @@
+import { clamp } from './utils';
+
+// Uploaded photos are downscaled and re-encoded before they reach the media store: a
+// 12 MP phone photo is far more than a dashboard panel can show, and decoding and zooming
+// it is what makes low-end TV browsers stutter. Re-encoding through a canvas also drops
+// EXIF and other metadata; the EXIF orientation is applied to the pixels first.
+
+export type ImageFormat = 'webp' | 'jpeg';
+
+export interface ImageUploadSettings {
+  // Longest edge in pixels; smaller images are never enlarged.
+  maxEdge: number;
+  // Encoder quality, 0.4 - 1.
+  quality: number;
+  format: ImageFormat;
+}
+
+export const IMAGE_MAX_EDGE_OPTIONS = [1280, 1920, 2560, 3840];
+
+const SETTINGS_KEY = 'safety-dashboard-ui-image';
+
+// Smallest size option that still covers the whole screen at its pixel density; a panel
+// is never larger than the screen.
+export function screenMaxEdge() {
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  const longEdge = typeof screen !== 'undefined' ? Math.max(screen.width, screen.height) * dpr : 1920;
+  return IMAGE_MAX_EDGE_OPTIONS.find((o) => o >= longEdge) ?? IMAGE_MAX_EDGE_OPTIONS[IMAGE_MAX_EDGE_OPTIONS.length - 1];
+}
+
+export function supportsWebp() {
+  try {
+    const c = document.createElement('canvas');
+    c.width = c.height = 1;
+    return c.toDataURL('image/webp').startsWith('data:image/webp');
+  } catch {
+    return false;
+  }
+}
+
+export function defaultImageSettings(): ImageUploadSettings {
+  return { maxEdge: screenMaxEdge(), quality: 0.82, format: supportsWebp() ? 'webp' : 'jpeg' };
+}
+
+// Upload settings are kept per device.
+export function loadImageSettings(): ImageUploadSettings {
+  const d = defaultImageSettings();
+  try {
+    const raw = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') || {};
+    return {
+      maxEdge: IMAGE_MAX_EDGE_OPTIONS.includes(raw.maxEdge) ? raw.maxEdge : d.maxEdge,
+      quality: typeof raw.quality === 'number' ? clamp(raw.quality, 0.4, 1) : d.quality,
+      format: raw.format === 'jpeg' || (raw.format === 'webp' && d.format === 'webp') ? raw.format : d.format,
+    };
+  } catch {
+    return d;
+  }
+}
+
+export function saveImageSettings(settings: ImageUploadSettings) {
+  try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)); } catch {}
+}
+
+// EXIF orientation (1-8) of a JPEG, 1 when absent or not a JPEG.
+export function readExifOrientation(buf: ArrayBuffer): number {
+  const view = new DataView(buf);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const v = view.getUint16(entry + 8, little);
+          return v >= 1 && v <= 8 ? v : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: no more metadata segments.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + size;
+  }
+  return 1;
+}
+
+// Whether the browser already applies EXIF orientation when decoding and drawing images
+// (the default for `image-orientation` in current browsers; older TV browsers don't).
+function browserAppliesOrientation() {
+  try {
+    return getComputedStyle(document.documentElement).getPropertyValue('image-orientation') === 'from-image';
+  } catch {
+    return false;
+  }
+}
+
+function decodeImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('ไฟล์นี้ไม่ใช่รูปภาพที่เบราว์เซอร์เปิดได้'));
+    img.src = url;
+  });
+}
+
+export function encodeCanvas(canvas: HTMLCanvasElement, settings: ImageUploadSettings): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('แปลงรูปไม่สำเร็จ'))), `image/${settings.format}`, settings.quality);
+  });
+}
+
+export interface OptimizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export async function optimizeImage(file: Blob, settings: ImageUploadSettings): Promise<OptimizedImage> {
+  const orientation = file.type === 'image/jpeg' ? readExifOrientation(await file.arrayBuffer()) : 1;
+  const manual = orientation !== 1 && !browserAppliesOrientation();
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await decodeImage(url);
+    // Orientations 5-8 turn the picture by 90°, swapping its displayed width and height.
+    const swap = manual && orientation >= 5;
+    const srcW = swap ? img.naturalHeight : img.naturalWidth;
+    const srcH = swap ? img.naturalWidth : img.naturalHeight;
+    const scale = Math.min(1, settings.maxEdge / Math.max(srcW, srcH));
+    const width = Math.max(1, Math.round(srcW * scale));
+    const height = Math.max(1, Math.round(srcH * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('เบราว์เซอร์นี้ย่อรูปไม่ได้');
+    // JPEG has no transparency; transparent PNG areas become white rather than black.
+    if (settings.format === 'jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    if (manual) {
+      switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+      }
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, swap ? height : width, swap ? width : height);
+
+    const blob = await encodeCanvas(canvas, settings);
+    return { blob, width, height, originalBytes: file.size, originalWidth: srcW, originalHeight: srcH };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Keeps a name like `poster.jpg` recognisable after re-encoding (`poster.webp`).
+export function optimizedFileName(name: string, format: ImageFormat) {
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  return `${base}.${format === 'jpeg' ? 'jpg' : 'webp'}`;
+}
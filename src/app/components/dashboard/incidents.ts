@@ -0,0 +1,98 @@
+import type { DayStatus, MonthlyData } from './types';
+import { fromISODate } from './dates';
+import { uid } from './utils';
+import { classificationOf, type ClassificationMap } from './classifications';
+
+export type IncidentKind = string; // DayClassification id
+export type IncidentSeverity = 'low' | 'medium' | 'high';
+
+export interface Incident {
+  id: string;
+  date: string; // ISO YYYY-MM-DD (calendar day the incident belongs to)
+  areaId: string; // department / line whose calendar and streak it counts against
+  time: string; // HH:MM
+  kind: IncidentKind;
+  severity: IncidentSeverity;
+  area: string;
+  description: string;
+  people: string;
+  lostWorkdays: number;
+}
+
+export const INCIDENT_SEVERITIES: Array<{ value: IncidentSeverity; label: string }> = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+export function compareIncidents(a: Incident, b: Incident) {
+  return a.date.localeCompare(b.date) || a.time.localeCompare(b.time);
+}
+
+export function worstIncidentStatus(list: Incident[] | undefined, byId: ClassificationMap): DayStatus {
+  if (!list || !list.length) return null;
+  let worst = list[0].kind;
+  for (const i of list) {
+    if (classificationOf(i.kind, byId).rank > classificationOf(worst, byId).rank) worst = i.kind;
+  }
+  return worst;
+}
+
+export function groupIncidentsByDate(list: Incident[]): Record<string, Incident[]> {
+  const out: Record<string, Incident[]> = {};
+  for (const i of list) (out[i.date] ||= []).push(i);
+  return out;
+}
+
+// Days with logged incidents take their colour from the worst incident; other days
+// keep the stored status (manual or auto SAFE).
+export function applyIncidentStatuses(data: MonthlyData[], byDate: Record<string, Incident[]>, byId: ClassificationMap): MonthlyData[] {
+  const dates = Object.keys(byDate);
+  if (!dates.length) return data;
+  const next = data.map((mm) => ({ ...mm, days: mm.days.map((dd) => ({ ...dd })) }));
+  for (const iso of dates) {
+    const dt = fromISODate(iso);
+    if (!dt) continue;
+    const month = next.find((mm) => mm.year === dt.getFullYear() && mm.month === dt.getMonth());
+    const day = month?.days[dt.getDate() - 1];
+    const st = worstIncidentStatus(byDate[iso], byId);
+    if (day && st) day.status = st;
+  }
+  return next;
+}
+
+export function createIncident(date: string, areaId: string): Incident {
+  return {
+    id: uid('inc'),
+    date,
+    areaId,
+    time: '08:00',
+    kind: 'near_miss',
+    severity: 'low',
+    area: '',
+    description: '',
+    people: '',
+    lostWorkdays: 0,
+  };
+}
+
+// Incidents logged before areas existed belong to `defaultAreaId`.
+export function sanitizeIncidents(raw: unknown, defaultAreaId: string): Incident[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((i): i is Record<string, unknown> & { id: string; date: string } => (
+      !!i && typeof i === 'object' && typeof i.id === 'string' && typeof i.date === 'string' && !!fromISODate(i.date)
+    ))
+    .map((i) => ({
+      id: i.id,
+      date: i.date,
+      areaId: typeof i.areaId === 'string' && i.areaId ? i.areaId : defaultAreaId,
+      time: typeof i.time === 'string' ? i.time : '',
+      kind: typeof i.kind === 'string' && i.kind && i.kind !== 'safe' ? i.kind : 'near_miss',
+      severity: i.severity === 'high' || i.severity === 'medium' ? i.severity : 'low',
+      area: typeof i.area === 'string' ? i.area : '',
+      description: typeof i.description === 'string' ? i.description : '',
+      people: typeof i.people === 'string' ? i.people : '',
+      lostWorkdays: Number.isFinite(Number(i.lostWorkdays)) ? Math.max(0, Number(i.lostWorkdays)) : 0,
+    }));
+}
@@ -0,0 +1,48 @@
+// PBKDF2-HMAC-SHA256, used for PIN hashes (see accounts.ts). Browsers only offer WebCrypto
+// on https and localhost pages, and screens often open the dashboard over plain http on
+// the plant network. There the @noble/hashes implementation runs in a worker instead, so
+// a sign-in doesn't freeze the page while the PIN is derived.
+
+export interface KdfRequest { id: number; password: Uint8Array; salt: Uint8Array; iterations: number }
+export interface KdfResponse { id: number; key: Uint8Array | null }
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (key: Uint8Array) => void; reject: (err: Error) => void }>();
+
+function kdfWorker() {
+  if (worker) return worker;
+  const w = new Worker(new URL('./kdf.worker.ts', import.meta.url), { type: 'module' });
+  w.onmessage = (e: MessageEvent<KdfResponse>) => {
+    const request = pending.get(e.data.id);
+    pending.delete(e.data.id);
+    if (e.data.key) request?.resolve(e.data.key);
+    else request?.reject(new Error('PBKDF2 failed'));
+  };
+  // A worker that fails to load fails everything waiting on it; the next call starts a new one.
+  w.onerror = () => {
+    for (const request of pending.values()) request.reject(new Error('PBKDF2 worker failed'));
+    pending.clear();
+    w.terminate();
+    worker = null;
+  };
+  worker = w;
+  return w;
+}
+
+function deriveInWorker(password: Uint8Array, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const id = ++nextRequestId;
+    pending.set(id, { resolve, reject });
+    const request: KdfRequest = { id, password, salt, iterations };
+    kdfWorker().postMessage(request);
+  });
+}
+
+export async function pbkdf2Sha256(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const pw = new TextEncoder().encode(password);
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return deriveInWorker(pw, salt, iterations);
+  const key = await subtle.importKey('raw', pw, 'PBKDF2', false, ['deriveBits']);
+  return new Uint8Array(await subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256));
+}
@@ -0,0 +1,16 @@
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+import type { KdfRequest, KdfResponse } from './kdf';
+
+// Derives PIN hashes for pages without WebCrypto (see kdf.ts), off the page's thread.
+self.onmessage = (e: MessageEvent<KdfRequest>) => {
+  const { id, password, salt, iterations } = e.data;
+  let reply: KdfResponse;
+  try {
+    reply = { id, key: pbkdf2(sha256, password, salt, { c: iterations, dkLen: 32 }) };
+  } catch {
+    reply = { id, key: null };
+  }
+  self.postMessage(reply);
+};
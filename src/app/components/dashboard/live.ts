@@ -0,0 +1,72 @@
+import { fetchRemoteState } from './remote';
+import { uid } from './utils';
+
+// Identifies this page in change notifications so it can skip its own echoes.
+export const LIVE_CLIENT_ID = uid('client');
+
+const CHANNEL_NAME = 'safety-dashboard';
+
+interface LiveMessage { key: string; origin: string; json: string }
+
+let channel: BroadcastChannel | null = null;
+function sharedChannel() {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+// Tells other tabs on this machine that `key` now holds `json`.
+export function announceLocalChange(key: string, json: string) {
+  try {
+    sharedChannel()?.postMessage({ key, origin: LIVE_CLIENT_ID, json } satisfies LiveMessage);
+  } catch {}
+}
+
+// Calls `onChange` with the new stored JSON whenever another tab (BroadcastChannel, or
+// `storage` events where that isn't available) or another display (the state server's
+// event stream) writes `key`. Returns an unsubscribe function.
+export function subscribeLiveUpdates(key: string, server: string | null, onChange: (json: string) => void): () => void {
+  const cleanups: Array<() => void> = [];
+
+  const bc = sharedChannel();
+  if (bc) {
+    const onMessage = (e: MessageEvent<LiveMessage>) => {
+      if (e.data?.key === key && e.data.origin !== LIVE_CLIENT_ID && typeof e.data.json === 'string') onChange(e.data.json);
+    };
+    bc.addEventListener('message', onMessage);
+    cleanups.push(() => bc.removeEventListener('message', onMessage));
+  } else {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === key && e.newValue) onChange(e.newValue);
+    };
+    window.addEventListener('storage', onStorage);
+    cleanups.push(() => window.removeEventListener('storage', onStorage));
+  }
+
+  if (server && typeof EventSource !== 'undefined') {
+    let stopped = false;
+    let opened = false;
+    const pull = () => {
+      fetchRemoteState(server, key)
+        .then((json) => { if (!stopped && json) onChange(json); })
+        .catch(() => {});
+    };
+    const es = new EventSource(`${server}/api/events`);
+    es.addEventListener('state', (e) => {
+      try {
+        const msg = JSON.parse((e as MessageEvent<string>).data);
+        if (msg?.key === key && msg.origin !== LIVE_CLIENT_ID) pull();
+      } catch {}
+    });
+    // Changes made while the stream was down are picked up on reconnect.
+    es.addEventListener('open', () => {
+      if (opened) pull();
+      opened = true;
+    });
+    cleanups.push(() => {
+      stopped = true;
+      es.close();
+    });
+  }
+
+  return () => cleanups.forEach((fn) => fn());
+}
@@ -0,0 +1,166 @@
+import { fetchRemoteMedia, pushRemoteMedia } from './remote';
+import { uid } from './utils';
+
+// Uploaded posters, policy images and videos are kept as Blobs in IndexedDB; the dashboard
+// state only holds a `media:<id>` reference that is turned into an object URL when
+// rendered. Built-in images ('/policy-vp.png') and data URLs saved by older versions pass
+// through.
+const DB_NAME = 'safety-dashboard-media';
+const STORE = 'media';
+export const MEDIA_REF_PREFIX = 'media:';
+const MEDIA_REF_RE = /"media:([a-z0-9-]+)"/g;
+// Unreferenced media younger than this is kept: the state referencing it may not be saved yet.
+const PRUNE_GRACE_MS = 10 * 60 * 1000;
+
+interface MediaRecord {
+  id: string;
+  blob: Blob;
+  name: string;
+  createdAt: number;
+  // Whether the state server already has a copy.
+  uploaded: boolean;
+}
+
+export function isMediaRef(src: string | null | undefined): src is string {
+  return typeof src === 'string' && src.startsWith(MEDIA_REF_PREFIX);
+}
+
+export function isDataUrl(src: string | null | undefined): src is string {
+  return typeof src === 'string' && src.startsWith('data:');
+}
+
+function mediaId(ref: string) {
+  return ref.slice(MEDIA_REF_PREFIX.length);
+}
+
+// Media ids referenced anywhere in a serialized dashboard state.
+export function mediaRefsIn(json: string): string[] {
+  return Array.from(json.matchAll(MEDIA_REF_RE), (m) => m[1]);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'));
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // A failed open (private mode, blocked storage) is retried on the next call.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+}
+
+function readRecord(id: string) {
+  return withStore<MediaRecord | undefined>('readonly', (s) => s.get(id));
+}
+
+function writeRecord(record: MediaRecord) {
+  return withStore('readwrite', (s) => s.put(record));
+}
+
+function allRecords() {
+  return withStore<MediaRecord[]>('readonly', (s) => s.getAll());
+}
+
+async function upload(server: string, record: MediaRecord) {
+  await pushRemoteMedia(server, record.id, record.blob);
+  await writeRecord({ ...record, uploaded: true });
+}
+
+// Stores an uploaded file and returns the reference to keep in the dashboard state. Throws
+// when the browser refuses the write (quota, private mode). With a state server the file
+// is also sent there in the background; failed uploads are retried by `uploadPendingMedia`.
+export async function putMedia(blob: Blob, name: string, server: string | null): Promise<string> {
+  const record: MediaRecord = { id: uid('media'), blob, name, createdAt: Date.now(), uploaded: false };
+  await writeRecord(record);
+  if (server) upload(server, record).catch(() => {});
+  return `${MEDIA_REF_PREFIX}${record.id}`;
+}
+
+// Moves a data URL saved by an older version into the media store. Returns the data URL
+// unchanged when that isn't possible, so the image keeps showing.
+export async function storeDataUrl(src: string, server: string | null): Promise<string> {
+  try {
+    const blob = await (await fetch(src)).blob();
+    return await putMedia(blob, '', server);
+  } catch {
+    return src;
+  }
+}
+
+// Sends media the server hasn't received yet (uploaded while it was unreachable). Local
+// storage errors are ignored here; only a failed upload rejects.
+export async function uploadPendingMedia(server: string): Promise<void> {
+  for (const record of await allRecords().catch(() => [] as MediaRecord[])) {
+    if (!record.uploaded) await upload(server, record);
+  }
+}
+
+// Local copy first, then the state server (cached locally for next time).
+async function loadMediaBlob(id: string, server: string | null): Promise<Blob | null> {
+  const local = await readRecord(id).catch(() => undefined);
+  if (local) return local.blob;
+  if (!server) return null;
+  const blob = await fetchRemoteMedia(server, id);
+  if (blob) writeRecord({ id, blob, name: '', createdAt: Date.now(), uploaded: true }).catch(() => {});
+  return blob;
+}
+
+// Object URLs are shared between everything showing the same image and revoked when
+// the last user releases them.
+const objectUrls = new Map<string, { users: number; url: Promise<string | null> }>();
+
+export function acquireMediaUrl(ref: string, server: string | null): Promise<string | null> {
+  let entry = objectUrls.get(ref);
+  if (!entry) {
+    const url = loadMediaBlob(mediaId(ref), server).then(
+      (blob) => (blob ? URL.createObjectURL(blob) : null),
+      () => null,
+    );
+    entry = { users: 0, url };
+    objectUrls.set(ref, entry);
+  }
+  entry.users += 1;
+  return entry.url;
+}
+
+export function releaseMediaUrl(ref: string) {
+  const entry = objectUrls.get(ref);
+  if (!entry) return;
+  entry.users -= 1;
+  if (entry.users > 0) return;
+  objectUrls.delete(ref);
+  entry.url.then((url) => { if (url) URL.revokeObjectURL(url); });
+}
+
+export interface MediaUsage { count: number; bytes: number }
+
+export async function mediaUsage(): Promise<MediaUsage> {
+  const records = await allRecords();
+  return { count: records.length, bytes: records.reduce((sum, r) => sum + (r.blob?.size ?? 0), 0) };
+}
+
+// Deletes stored media that no saved state refers to any more (replaced or removed images).
+export async function pruneMedia(referenced: Set<string>): Promise<number> {
+  const cutoff = Date.now() - PRUNE_GRACE_MS;
+  const stale = (await allRecords()).filter((r) => !referenced.has(r.id) && r.createdAt < cutoff);
+  for (const r of stale) await withStore('readwrite', (s) => s.delete(r.id));
+  return stale.length;
+}
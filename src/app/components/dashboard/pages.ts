@@ -0,0 +1,47 @@
+import { sanitizeFraming, type Framing } from './framing';
+import { clamp } from './utils';
+
+// Content of a poster or policy slot: one image, or the pages of an imported PDF shown one
+// after another. Pages are image sources as accepted by MediaImage (`media:<id>`, a URL,
+// or a data URL from older versions).
+export interface PageSet {
+  pages: string[];
+  // Seconds each page stays up before flipping to the next; 0 turns flipping off.
+  flipSeconds: number;
+  // Crop, fit and pan chosen for the set; absent shows each page whole.
+  framing?: Framing;
+}
+
+export const DEFAULT_FLIP_SECONDS = 15;
+export const MAX_FLIP_SECONDS = 600;
+
+export function singlePage(src: string): PageSet {
+  return { pages: [src], flipSeconds: DEFAULT_FLIP_SECONDS };
+}
+
+// Slots saved before PDF support hold a plain image source.
+export function sanitizePageSet(raw: unknown): PageSet | null {
+  if (typeof raw === 'string') return raw ? singlePage(raw) : null;
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const pages = Array.isArray(r.pages) ? r.pages.filter((p): p is string => typeof p === 'string' && !!p) : [];
+  if (!pages.length) return null;
+  const flip = Number(r.flipSeconds);
+  const framing = sanitizeFraming(r.framing);
+  return {
+    pages,
+    flipSeconds: Number.isFinite(flip) ? clamp(Math.round(flip), 0, MAX_FLIP_SECONDS) : DEFAULT_FLIP_SECONDS,
+    ...(framing ? { framing } : {}),
+  };
+}
+
+export function withFraming(set: PageSet, framing: Framing | null): PageSet {
+  const { framing: _previous, ...rest } = set;
+  return framing ? { ...rest, framing } : rest;
+}
+
+// Rewrites page sources, returning the same set when nothing changed.
+export function mapPageSources(set: PageSet, fn: (src: string) => string): PageSet {
+  const pages = set.pages.map(fn);
+  return pages.every((p, i) => p === set.pages[i]) ? set : { ...set, pages };
+}
@@ -0,0 +1,48 @@
+// PDF pages are rendered in the browser with pdf.js when a PDF is uploaded and stored as
+// ordinary images, so displays never need to load pdf.js themselves. The library (and its
+// worker) is only fetched once a PDF is picked; the legacy build also runs on older TV
+// browsers.
+async function loadPdfJs() {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist/legacy/build/pdf.mjs'),
+    import('pdfjs-dist/legacy/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+export function isPdfFile(file: File) {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+export interface PdfFile {
+  pageCount: number;
+  // Renders page `index` (0-based) so its longest edge is `maxEdge` pixels.
+  renderPage: (index: number, maxEdge: number) => Promise<HTMLCanvasElement>;
+  close: () => void;
+}
+
+export async function openPdf(file: Blob): Promise<PdfFile> {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  return {
+    pageCount: doc.numPages,
+    async renderPage(index, maxEdge) {
+      const page = await doc.getPage(index + 1);
+      try {
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: maxEdge / Math.max(base.width, base.height) });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(viewport.width));
+        canvas.height = Math.max(1, Math.round(viewport.height));
+        await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+        return canvas;
+      } finally {
+        page.cleanup();
+      }
+    },
+    close() {
+      doc.destroy();
+    },
+  };
+}
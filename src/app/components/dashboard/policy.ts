@@ -0,0 +1,69 @@
+import { sanitizePageSet, type PageSet } from './pages';
+import { sanitizeSchedule, type Schedule } from './schedule';
+import { clamp, uid } from './utils';
+
+// An image or document shown on the Safety Policy card, with the window it's shown in.
+export interface PolicyImage {
+  id: string;
+  content: PageSet;
+  schedule: Schedule | null;
+}
+
+// How many documents share the card at once; when more are showing, the card pages
+// through them.
+export type PolicyLayout = 'single' | 'side-by-side' | 'grid';
+
+export const POLICY_LAYOUTS: { value: PolicyLayout; label: string; cols: number; perPage: number }[] = [
+  { value: 'single', label: 'ทีละ 1', cols: 1, perPage: 1 },
+  { value: 'side-by-side', label: 'คู่กัน 2', cols: 2, perPage: 2 },
+  { value: 'grid', label: 'ตาราง 2×2', cols: 2, perPage: 4 },
+];
+
+// Two side by side matches the card before layouts could be chosen.
+export const DEFAULT_POLICY_LAYOUT: PolicyLayout = 'side-by-side';
+export const DEFAULT_POLICY_PAGE_SECONDS = 20;
+export const MIN_POLICY_PAGE_SECONDS = 3;
+export const MAX_POLICY_PAGE_SECONDS = 3600;
+
+export function isPolicyLayout(v: unknown): v is PolicyLayout {
+  return POLICY_LAYOUTS.some((l) => l.value === v);
+}
+
+export function policyLayoutInfo(layout: PolicyLayout) {
+  return POLICY_LAYOUTS.find((l) => l.value === layout) ?? POLICY_LAYOUTS[0];
+}
+
+export function sanitizePolicyPageSeconds(raw: unknown) {
+  return typeof raw === 'number' && Number.isFinite(raw)
+    ? clamp(Math.round(raw), MIN_POLICY_PAGE_SECONDS, MAX_POLICY_PAGE_SECONDS)
+    : DEFAULT_POLICY_PAGE_SECONDS;
+}
+
+export function createPolicyImage(content: PageSet): PolicyImage {
+  return { id: uid('policy'), content, schedule: null };
+}
+
+// Older versions stored the page sets (or plain image sources) directly.
+export function sanitizePolicyImages(raw: unknown): PolicyImage[] {
+  if (!Array.isArray(raw)) return [];
+  const list: PolicyImage[] = [];
+  for (const item of raw) {
+    const r = item && typeof item === 'object' && 'content' in item ? (item as Record<string, unknown>) : null;
+    const content = sanitizePageSet(r ? r.content : item);
+    if (!content) continue;
+    list.push({
+      id: r && typeof r.id === 'string' && r.id ? r.id : uid('policy'),
+      content,
+      schedule: r ? sanitizeSchedule(r.schedule) : null,
+    });
+  }
+  return list;
+}
+
+// The documents shown together on each page of the card.
+export function policyPages(images: PolicyImage[], layout: PolicyLayout): PolicyImage[][] {
+  const { perPage } = policyLayoutInfo(layout);
+  const pages: PolicyImage[][] = [];
+  for (let i = 0; i < images.length; i += perPage) pages.push(images.slice(i, i + perPage));
+  return pages;
+}
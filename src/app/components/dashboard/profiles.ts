@@ -0,0 +1,26 @@
+// Named dashboards (one per TV / building), selected with `?profile=<name>`.
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export function normalizeProfileName(raw: string): string | null {
+  const name = raw.trim().toLowerCase();
+  return PROFILE_RE.test(name) ? name : null;
+}
+
+export function profileFromUrl(): string {
+  try {
+    const raw = new URLSearchParams(window.location.search).get('profile');
+    return (raw && normalizeProfileName(raw)) || DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+// Current page URL switched to `profile`; the default profile drops the parameter.
+export function profileUrl(profile: string): string {
+  const url = new URL(window.location.href);
+  if (profile === DEFAULT_PROFILE) url.searchParams.delete('profile');
+  else url.searchParams.set('profile', profile);
+  return url.toString();
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { classificationsById, DEFAULT_DAY_CLASSIFICATIONS, sanitizeClassifications } from './classifications';
+import { createIncident, type Incident } from './incidents';
+import { computeInjuryRates, formatRate, inferMetricSource, isLostTimeIncident } from './rates';
+
+const byId = classificationsById(DEFAULT_DAY_CLASSIFICATIONS);
+
+function incident(kind: string, lostWorkdays: number): Incident {
+  return { ...createIncident('2026-03-02', 'area'), kind, lostWorkdays };
+}
+
+describe('isLostTimeIncident', () => {
+  it('counts lost-time classifications that cost workdays', () => {
+    expect(isLostTimeIncident(incident('accident', 2), byId)).toBe(true);
+    expect(isLostTimeIncident(incident('absent', 1), byId)).toBe(true);
+    expect(isLostTimeIncident(incident('accident', 0), byId)).toBe(false);
+  });
+
+  it("ignores streak-breaking classifications that aren't lost-time", () => {
+    expect(byId.fire.breaksStreak).toBe(true);
+    expect(isLostTimeIncident(incident('fire', 3), byId)).toBe(false);
+    expect(isLostTimeIncident(incident('gone', 3), byId)).toBe(false);
+  });
+
+  it('follows the flag on custom classifications', () => {
+    const custom = classificationsById([...DEFAULT_DAY_CLASSIFICATIONS, { ...byId.fire, id: 'burn', lostTime: true }]);
+    expect(isLostTimeIncident(incident('burn', 1), custom)).toBe(true);
+  });
+});
+
+describe('sanitizeClassifications', () => {
+  it('marks ACCIDENT and ABSENT as lost-time in lists stored before the flag', () => {
+    const stored = DEFAULT_DAY_CLASSIFICATIONS.map(({ lostTime: _lostTime, ...c }) => c);
+    const lostTime = sanitizeClassifications(stored).filter((c) => c.lostTime).map((c) => c.id);
+    expect(lostTime).toEqual(['accident', 'absent']);
+  });
+
+  it('keeps the flag once it is stored', () => {
+    const stored = DEFAULT_DAY_CLASSIFICATIONS.map((c) => ({ ...c, lostTime: c.id === 'fire' }));
+    expect(sanitizeClassifications(stored).filter((c) => c.lostTime).map((c) => c.id)).toEqual(['fire']);
+  });
+});
+
+describe('computeInjuryRates', () => {
+  it('computes IFR and ISR per rate base', () => {
+    const incidents = [incident('accident', 4), incident('accident', 6), incident('near_miss', 2)];
+    expect(computeInjuryRates(incidents, 1000000, 1000000, byId)).toEqual({ lostTimeInjuries: 2, lostDays: 10, ifr: 2, isr: 10 });
+    expect(computeInjuryRates(incidents, 400000, 200000, byId)).toEqual({ lostTimeInjuries: 2, lostDays: 10, ifr: 1, isr: 5 });
+  });
+
+  it('has no rates without man-hours', () => {
+    expect(computeInjuryRates([], 0, 1000000, byId).ifr).toBeNull();
+    expect(computeInjuryRates([], null, 1000000, byId).isr).toBeNull();
+  });
+});
+
+describe('formatRate / inferMetricSource', () => {
+  it('formats missing rates as a dash', () => {
+    expect(formatRate(null)).toBe('-');
+    expect(formatRate(1.234)).toBe('1.23');
+  });
+
+  it('makes older IFR / ISR tiles automatic', () => {
+    expect(inferMetricSource(' IFR ', undefined)).toBe('ifr');
+    expect(inferMetricSource('isr', 'manual')).toBe('manual');
+    expect(inferMetricSource('Near miss', undefined)).toBe('manual');
+  });
+});
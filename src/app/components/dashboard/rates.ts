@@ -0,0 +1,59 @@
+import type { Incident } from './incidents';
+import { classificationOf, type ClassificationMap } from './classifications';
+
+// Where a metric tile gets its value: typed by hand, or computed live.
+export type MetricSource = 'manual' | 'ifr' | 'isr';
+
+export const METRIC_SOURCES: Array<{ value: MetricSource; label: string }> = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'ifr', label: 'Auto IFR' },
+  { value: 'isr', label: 'Auto ISR' },
+];
+
+// Man-hour base of the rate formulas (ILO / Thai practice vs. OSHA).
+export type RateBase = 1000000 | 200000;
+export const RATE_BASES: RateBase[] = [1000000, 200000];
+export const DEFAULT_RATE_BASE: RateBase = 1000000;
+
+export function isRateBase(v: unknown): v is RateBase {
+  return v === 1000000 || v === 200000;
+}
+
+// Lost-time = an incident of a lost-time classification that cost at least one workday.
+export function isLostTimeIncident(i: Incident, byId: ClassificationMap) {
+  return classificationOf(i.kind, byId).lostTime && i.lostWorkdays > 0;
+}
+
+export interface InjuryRates {
+  lostTimeInjuries: number;
+  lostDays: number;
+  ifr: number | null; // injury frequency rate
+  isr: number | null; // injury severity rate
+}
+
+export function computeInjuryRates(incidents: Incident[], manHours: number | null, base: RateBase, byId: ClassificationMap): InjuryRates {
+  const lostTime = incidents.filter((i) => isLostTimeIncident(i, byId));
+  const lostTimeInjuries = lostTime.length;
+  const lostDays = lostTime.reduce((sum, i) => sum + i.lostWorkdays, 0);
+  const valid = manHours !== null && manHours > 0;
+  return {
+    lostTimeInjuries,
+    lostDays,
+    ifr: valid ? (lostTimeInjuries * base) / manHours : null,
+    isr: valid ? (lostDays * base) / manHours : null,
+  };
+}
+
+export function formatRate(n: number | null) {
+  if (n === null || !Number.isFinite(n)) return '-';
+  return n.toFixed(2);
+}
+
+// Metrics stored before computed sources existed: IFR / ISR tiles become automatic.
+export function inferMetricSource(label: string, source: unknown): MetricSource {
+  if (source === 'manual' || source === 'ifr' || source === 'isr') return source;
+  const l = label.trim().toLowerCase();
+  if (l === 'ifr') return 'ifr';
+  if (l === 'isr') return 'isr';
+  return 'manual';
+}
@@ -0,0 +1,91 @@
+// Client for the optional state server in `server/index.mjs`. Configured per device with
+// `?server=http://host:8787` (remembered), and turned off again with `?server=off`.
+const SERVER_SETTING_KEY = 'safety-dashboard-server';
+const REQUEST_TIMEOUT_MS = 8000;
+// Videos can take a while to move over a slow network.
+const MEDIA_TIMEOUT_MS = 120000;
+
+export type SyncState = 'local' | 'synced' | 'offline';
+
+// A response other than success; `status` tells a refused write (403) or a stale one
+// (409) from a server that is down.
+export class StateServerError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`state server: ${status}`);
+    this.status = status;
+  }
+}
+
+export function stateServerUrl(): string | null {
+  try {
+    const param = new URLSearchParams(window.location.search).get('server');
+    if (param === 'off') localStorage.removeItem(SERVER_SETTING_KEY);
+    else if (param && /^https?:\/\//i.test(param)) localStorage.setItem(SERVER_SETTING_KEY, param.replace(/\/+$/, ''));
+    return localStorage.getItem(SERVER_SETTING_KEY);
+  } catch {
+    return null;
+  }
+}
+
+async function request(url: string, init?: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS) {
+  const ctrl = new AbortController();
+  const t = window.setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: ctrl.signal, cache: 'no-store' });
+  } finally {
+    window.clearTimeout(t);
+  }
+}
+
+// Raw JSON text stored under `key`, or null when the server has never seen it.
+// Throws when the server can't be reached.
+export async function fetchRemoteState(server: string, key: string): Promise<string | null> {
+  const res = await request(`${server}/api/state/${encodeURIComponent(key)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new StateServerError(res.status);
+  return res.text();
+}
+
+// `clientId` comes back as the origin of the server's change event, so the writer can
+// skip its own echo.
+export async function pushRemoteState(
+  server: string,
+  key: string,
+  json: string,
+  clientId: string,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const res = await request(`${server}/api/state/${encodeURIComponent(key)}`, {
+    method: 'PUT',
+    headers: { ...headers, 'Content-Type': 'application/json', 'X-Client-Id': clientId },
+    body: json,
+  });
+  if (!res.ok) throw new StateServerError(res.status);
+}
+
+export async function listRemoteKeys(server: string): Promise<string[]> {
+  const res = await request(`${server}/api/state`);
+  if (!res.ok) throw new StateServerError(res.status);
+  const list = await res.json();
+  return Array.isArray(list) ? list.map((e: { key?: unknown } | null) => String(e?.key ?? '')).filter(Boolean) : [];
+}
+
+// Uploaded images and videos (see media.ts) are stored on the server by id, so displays
+// that only receive the state can still show them.
+export async function fetchRemoteMedia(server: string, id: string): Promise<Blob | null> {
+  const res = await request(`${server}/api/media/${encodeURIComponent(id)}`, undefined, MEDIA_TIMEOUT_MS);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new StateServerError(res.status);
+  return res.blob();
+}
+
+export async function pushRemoteMedia(server: string, id: string, blob: Blob): Promise<void> {
+  const res = await request(`${server}/api/media/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+    body: blob,
+  }, MEDIA_TIMEOUT_MS);
+  if (!res.ok) throw new StateServerError(res.status);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSchedule, isScheduled, isScheduleOver, sanitizeSchedule, type Schedule } from './schedule';
+
+const at = (y: number, m: number, d: number, h = 12, min = 0) => new Date(y, m - 1, d, h, min);
+
+function schedule(patch: Partial<Schedule>): Schedule {
+  return { ...createSchedule(), ...patch };
+}
+
+describe('sanitizeSchedule', () => {
+  it('turns schedules that restrict nothing into null', () => {
+    expect(sanitizeSchedule(null)).toBeNull();
+    expect(sanitizeSchedule(createSchedule())).toBeNull();
+    expect(sanitizeSchedule({ from: 'soon', start: '25:00' })).toBeNull();
+  });
+
+  it('keeps valid fields', () => {
+    expect(sanitizeSchedule({ from: '2026-02-01', start: '08:00' })).toEqual(schedule({ from: '2026-02-01', start: '08:00' }));
+  });
+});
+
+describe('isScheduled', () => {
+  it('shows items without a schedule', () => {
+    expect(isScheduled(null, at(2026, 1, 1))).toBe(true);
+  });
+
+  it('follows the date range, both ends inclusive', () => {
+    const s = schedule({ from: '2026-02-01', until: '2026-02-28' });
+    expect(isScheduled(s, at(2026, 1, 31))).toBe(false);
+    expect(isScheduled(s, at(2026, 2, 1))).toBe(true);
+    expect(isScheduled(s, at(2026, 2, 28, 23, 59))).toBe(true);
+    expect(isScheduled(s, at(2026, 3, 1, 0, 0))).toBe(false);
+  });
+
+  it('follows the weekdays', () => {
+    const s = schedule({ days: [false, true, true, true, true, true, false] });
+    expect(isScheduled(s, at(2026, 3, 7))).toBe(false); // Saturday
+    expect(isScheduled(s, at(2026, 3, 9))).toBe(true); // Monday
+  });
+
+  it('follows the daily window, end exclusive', () => {
+    const s = schedule({ start: '08:00', end: '17:00' });
+    expect(isScheduled(s, at(2026, 3, 9, 7, 59))).toBe(false);
+    expect(isScheduled(s, at(2026, 3, 9, 8, 0))).toBe(true);
+    expect(isScheduled(s, at(2026, 3, 9, 17, 0))).toBe(false);
+  });
+
+  it('keeps an overnight window on the day it opened', () => {
+    const s = schedule({ start: '22:00', end: '06:00', days: [false, false, false, false, false, true, false] });
+    expect(isScheduled(s, at(2026, 3, 13, 23, 0))).toBe(true); // Friday night
+    expect(isScheduled(s, at(2026, 3, 14, 5, 59))).toBe(true); // early Saturday
+    expect(isScheduled(s, at(2026, 3, 14, 6, 0))).toBe(false);
+    expect(isScheduled(s, at(2026, 3, 13, 5, 0))).toBe(false); // Thursday's window
+  });
+});
+
+describe('isScheduleOver', () => {
+  it('is over after the last day', () => {
+    const s = schedule({ until: '2026-02-28' });
+    expect(isScheduleOver(s, at(2026, 2, 28, 23, 59))).toBe(false);
+    expect(isScheduleOver(s, at(2026, 3, 1))).toBe(true);
+    expect(isScheduleOver(null, at(2026, 3, 1))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+
+import { fromISODate, toISODate } from './dates';
+import { minutesOfTime } from './shifts';
+
+// When an announcement, poster slide or policy image is on screen. Empty fields don't
+// restrict anything; items without a schedule are always shown.
+export interface Schedule {
+  from: string; // ISO date, first day shown
+  until: string; // ISO date, last day shown
+  days: boolean[]; // per Date#getDay(), Sunday first
+  start: string; // HH:MM
+  end: string; // HH:MM; at or before `start` means the window ends after midnight
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MINUTES = 24 * 60;
+
+export function createSchedule(): Schedule {
+  return { from: '', until: '', days: Array(7).fill(true), start: '', end: '' };
+}
+
+// Null for anything that doesn't restrict when an item shows, so "always" has one shape.
+export function sanitizeSchedule(raw: unknown): Schedule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const date = (v: unknown) => (typeof v === 'string' && fromISODate(v) ? v : '');
+  const time = (v: unknown) => (typeof v === 'string' && minutesOfTime(v) !== null ? v : '');
+  const s: Schedule = {
+    from: date(r.from),
+    until: date(r.until),
+    days: Array.isArray(r.days) && r.days.length === 7 ? r.days.map(Boolean) : Array(7).fill(true),
+    start: time(r.start),
+    end: time(r.end),
+  };
+  const restricts = s.from || s.until || s.start || s.end || s.days.some((d) => !d);
+  return restricts ? s : null;
+}
+
+export function isScheduled(schedule: Schedule | null | undefined, now: Date): boolean {
+  if (!schedule) return true;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = minutesOfTime(schedule.start) ?? 0;
+  const end = minutesOfTime(schedule.end) ?? DAY_MINUTES;
+  // Dates and weekdays apply to the day the window opened, so an overnight window that
+  // starts on Friday still shows after midnight.
+  let day = now;
+  if (end > start) {
+    if (minutes < start || minutes >= end) return false;
+  } else if (minutes < end) {
+    day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  } else if (minutes < start) {
+    return false;
+  }
+  const iso = toISODate(day);
+  if (schedule.from && iso < schedule.from) return false;
+  if (schedule.until && iso > schedule.until) return false;
+  return schedule.days[day.getDay()];
+}
+
+// Past its last day: it won't show again until someone edits it.
+export function isScheduleOver(schedule: Schedule | null | undefined, now: Date) {
+  return !!schedule?.until && toISODate(now) > schedule.until;
+}
+
+// Current time, updated on each minute boundary, which is as fine as schedules go.
+export function useScheduleClock() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    let t: number | undefined;
+    const schedule = () => {
+      const d = new Date();
+      t = window.setTimeout(() => {
+        setNow(new Date());
+        schedule();
+      }, (60 - d.getSeconds()) * 1000 - d.getMilliseconds() + 50);
+    };
+    schedule();
+    return () => window.clearTimeout(t);
+  }, []);
+  return now;
+}
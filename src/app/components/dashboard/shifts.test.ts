@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_SHIFTS, nextCutoffAt, productionDayCutoff, productionDayRollover, shiftClock, type Shift } from './shifts';
+
+const night: Shift[] = [{ id: 'night', name: 'Night', start: '22:00', end: '06:00' }];
+
+describe('productionDayCutoff', () => {
+  it('closes the day after the last shift, the next morning for a night shift', () => {
+    expect(productionDayCutoff(DEFAULT_SHIFTS)).toBe(16 * 60);
+    expect(productionDayCutoff(night)).toBe(30 * 60);
+    expect(productionDayRollover(night)).toBe(6 * 60);
+  });
+});
+
+describe('shiftClock', () => {
+  it('keeps the hours after midnight on the previous production day', () => {
+    expect(shiftClock(new Date(2026, 5, 10, 3, 0), night)).toEqual({ day: new Date(2026, 5, 9), afterCutoff: false });
+    expect(shiftClock(new Date(2026, 5, 10, 5, 59), night)).toEqual({ day: new Date(2026, 5, 9), afterCutoff: false });
+    expect(shiftClock(new Date(2026, 5, 10, 6, 0), night)).toEqual({ day: new Date(2026, 5, 10), afterCutoff: false });
+    expect(shiftClock(new Date(2026, 5, 10, 3, 0), DEFAULT_SHIFTS)).toEqual({ day: new Date(2026, 5, 10), afterCutoff: false });
+  });
+
+  it('keeps the night of 31 December in the old year until the shift ends', () => {
+    expect(shiftClock(new Date(2026, 11, 31, 23, 0), night).day).toEqual(new Date(2026, 11, 31));
+    expect(shiftClock(new Date(2027, 0, 1, 5, 59), night).day).toEqual(new Date(2026, 11, 31));
+    expect(shiftClock(new Date(2027, 0, 1, 6, 0), night).day).toEqual(new Date(2027, 0, 1));
+  });
+});
+
+describe('nextCutoffAt', () => {
+  it('closes 31 December on the morning of 1 January', () => {
+    expect(nextCutoffAt(new Date(2026, 11, 31, 23, 0), night)).toEqual(new Date(2027, 0, 1, 6, 0));
+    expect(nextCutoffAt(new Date(2027, 0, 1, 6, 0), night)).toEqual(new Date(2027, 0, 2, 6, 0));
+  });
+});
@@ -0,0 +1,89 @@
+import { uid } from './utils';
+
+export interface Shift {
+  id: string;
+  name: string;
+  start: string; // HH:MM
+  end: string; // HH:MM; at or before `start` means the shift ends after midnight
+}
+
+// One day shift ending at 16:00 keeps the original auto SAFE cutoff.
+export const DEFAULT_SHIFTS: Shift[] = [{ id: 'shift-day', name: 'Day', start: '08:00', end: '16:00' }];
+
+const DAY_MINUTES = 24 * 60;
+
+export function minutesOfTime(hhmm: string): number | null {
+  const m = /^(\d{2}):(\d{2})$/.exec(hhmm || '');
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  return h < 24 && min < 60 ? h * 60 + min : null;
+}
+
+export function formatMinutes(minutes: number) {
+  const m = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function crossesMidnight(shift: Shift) {
+  const s = minutesOfTime(shift.start);
+  const e = minutesOfTime(shift.end);
+  return s !== null && e !== null && e <= s;
+}
+
+// End of the last shift, in minutes from the start of the production day. Values past
+// 24:00 mean the production day closes the next morning.
+export function productionDayCutoff(shifts: Shift[]) {
+  let cutoff = 0;
+  for (const sh of shifts) {
+    const e = minutesOfTime(sh.end);
+    if (e === null) continue;
+    cutoff = Math.max(cutoff, crossesMidnight(sh) ? e + DAY_MINUTES : e);
+  }
+  return shifts.length ? cutoff : minutesOfTime(DEFAULT_SHIFTS[0].end)!;
+}
+
+// Clock time before which work still belongs to the previous production day.
+export function productionDayRollover(shifts: Shift[]) {
+  return Math.max(0, productionDayCutoff(shifts) - DAY_MINUTES);
+}
+
+// Production day a moment belongs to, and whether that day's last shift has ended.
+export function shiftClock(now: Date, shifts: Shift[]) {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const early = minutes < productionDayRollover(shifts);
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (early ? 1 : 0));
+  const afterCutoff = minutes + (early ? DAY_MINUTES : 0) >= productionDayCutoff(shifts);
+  return { day, afterCutoff };
+}
+
+// Next moment a production day closes.
+export function nextCutoffAt(now: Date, shifts: Shift[]) {
+  const { day } = shiftClock(now, shifts);
+  const cutoff = productionDayCutoff(shifts);
+  const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, cutoff);
+  if (at.getTime() <= now.getTime()) at.setDate(at.getDate() + 1);
+  return at;
+}
+
+// True when an incident time on a production day falls on the following calendar date.
+export function isAfterMidnight(time: string, shifts: Shift[]) {
+  const m = minutesOfTime(time);
+  return m !== null && m < productionDayRollover(shifts);
+}
+
+export function createShift(): Shift {
+  return { id: uid('shift'), name: '', start: '08:00', end: '16:00' };
+}
+
+export function sanitizeShifts(raw: unknown): Shift[] | null {
+  if (!Array.isArray(raw)) return null;
+  const list = raw
+    .filter((s): s is Record<string, unknown> & { id: string; start: string; end: string } => (
+      !!s && typeof s === 'object' && typeof s.id === 'string'
+      && typeof s.start === 'string' && minutesOfTime(s.start) !== null
+      && typeof s.end === 'string' && minutesOfTime(s.end) !== null
+    ))
+    .map((s) => ({ id: s.id, name: typeof s.name === 'string' ? s.name : '', start: s.start, end: s.end }));
+  return list.length ? list : null;
+}
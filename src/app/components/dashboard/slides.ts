@@ -0,0 +1,69 @@
+import { sanitizeSchedule, type Schedule } from './schedule';
+import { clamp, uid } from './utils';
+import { sanitizePosterContent, type PosterContent } from './video';
+
+// Each poster card plays a playlist of slides. A slide stays up for `seconds`, arrives
+// with its own transition and keeps its own zoom; its schedule decides when it's in the
+// rotation at all.
+export type SlideTransition = 'fade' | 'slide' | 'none';
+
+export interface PosterSlide {
+  id: string;
+  content: PosterContent;
+  seconds: number;
+  transition: SlideTransition;
+  zoom: number;
+  schedule: Schedule | null;
+}
+
+export const SLIDE_TRANSITIONS: { value: SlideTransition; label: string }[] = [
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'none', label: 'ตัดทันที' },
+];
+
+export const DEFAULT_SLIDE_SECONDS = 20;
+export const MIN_SLIDE_SECONDS = 3;
+export const MAX_SLIDE_SECONDS = 3600;
+
+export const clampZoom = (z: number) => clamp(z, 0.5, 2.5);
+
+export function createSlide(content: PosterContent, zoom = 1): PosterSlide {
+  return { id: uid('slide'), content, seconds: DEFAULT_SLIDE_SECONDS, transition: 'fade', zoom: clampZoom(zoom), schedule: null };
+}
+
+function sanitizeSlide(raw: unknown): PosterSlide | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const content = sanitizePosterContent(r.content);
+  if (!content) return null;
+  const seconds = Number(r.seconds);
+  const zoom = Number(r.zoom);
+  return {
+    id: typeof r.id === 'string' && r.id ? r.id : uid('slide'),
+    content,
+    seconds: Number.isFinite(seconds) ? clamp(Math.round(seconds), MIN_SLIDE_SECONDS, MAX_SLIDE_SECONDS) : DEFAULT_SLIDE_SECONDS,
+    transition: SLIDE_TRANSITIONS.some((t) => t.value === r.transition) ? (r.transition as SlideTransition) : 'fade',
+    zoom: Number.isFinite(zoom) ? clampZoom(zoom) : 1,
+    schedule: sanitizeSchedule(r.schedule),
+  };
+}
+
+// A stored playlist, or the single poster (and its zoom) saved before playlists.
+export function loadPlaylist(playlist: unknown, legacyContent: unknown, legacyZoom: unknown, fallback: PosterContent): PosterSlide[] {
+  if (Array.isArray(playlist)) return playlist.map(sanitizeSlide).filter((s): s is PosterSlide => !!s);
+  const zoom = typeof legacyZoom === 'number' ? legacyZoom : 1;
+  return [createSlide(sanitizePosterContent(legacyContent) ?? fallback, zoom)];
+}
+
+export function moveSlide(list: PosterSlide[], index: number, delta: number): PosterSlide[] {
+  const to = index + delta;
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  [next[index], next[to]] = [next[to], next[index]];
+  return next;
+}
+
+export function zoomSlide(list: PosterSlide[], id: string, zoom: (z: number) => number): PosterSlide[] {
+  return list.map((s) => (s.id === id ? { ...s, zoom: clampZoom(zoom(s.zoom)) } : s));
+}
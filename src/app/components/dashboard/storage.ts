@@ -0,0 +1,196 @@
+import type { MonthlyData } from './types';
+import { sanitizeIncidents, type Incident } from './incidents';
+import { DEFAULT_DAY_CLASSIFICATIONS, classificationsById, sanitizeClassifications, type DayClassification } from './classifications';
+import { DEFAULT_PROFILE } from './profiles';
+import { fetchRemoteState, listRemoteKeys } from './remote';
+import { mediaRefsIn } from './media';
+import { DEFAULT_AREAS, loadAreaData, sanitizeAreas, viewCalendar, type Area, type AreaData } from './areas';
+import { DEFAULT_SHIFTS, sanitizeShifts, type Shift } from './shifts';
+
+const KEY_PREFIX = 'safety-dashboard-';
+// Default profile: `safety-dashboard-2026` (the original key); others: `safety-dashboard-plant2-2026`.
+const YEAR_KEY_RE = /^safety-dashboard-(?:([a-z0-9][a-z0-9_-]*)-)?(\d{4})$/;
+
+function parseYearKey(key: string): { profile: string; year: number } | null {
+  const m = YEAR_KEY_RE.exec(key);
+  return m ? { profile: m[1] ?? DEFAULT_PROFILE, year: Number(m[2]) } : null;
+}
+
+export function yearStorageKey(year: number, profile: string = DEFAULT_PROFILE) {
+  return profile === DEFAULT_PROFILE ? `${KEY_PREFIX}${year}` : `${KEY_PREFIX}${profile}-${year}`;
+}
+
+function storedKeys(): string[] {
+  const keys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) keys.push(localStorage.key(i) || '');
+  } catch {}
+  return keys;
+}
+
+export function listStoredYears(profile: string = DEFAULT_PROFILE): number[] {
+  const years: number[] = [];
+  for (const key of storedKeys()) {
+    const k = parseYearKey(key);
+    if (k && k.profile === profile) years.push(k.year);
+  }
+  return years.sort((a, b) => a - b);
+}
+
+export function listProfiles(): string[] {
+  const set = new Set<string>([DEFAULT_PROFILE]);
+  for (const key of storedKeys()) {
+    const k = parseYearKey(key);
+    if (k) set.add(k.profile);
+  }
+  return Array.from(set).sort((a, b) => (a === DEFAULT_PROFILE ? -1 : b === DEFAULT_PROFILE ? 1 : a.localeCompare(b)));
+}
+
+// Copies every stored year of `from` into a new profile. Refuses to overwrite one that
+// already has data; returns false when nothing could be copied.
+export function cloneProfile(from: string, to: string): boolean {
+  const years = listStoredYears(from);
+  if (!years.length || from === to || listStoredYears(to).length) return false;
+  try {
+    for (const year of years) {
+      const raw = localStorage.getItem(yearStorageKey(year, from));
+      if (raw !== null) localStorage.setItem(yearStorageKey(year, to), raw);
+    }
+    return true;
+  } catch {
+    for (const year of years) {
+      try { localStorage.removeItem(yearStorageKey(year, to)); } catch {}
+    }
+    return false;
+  }
+}
+
+// Browsers give each site roughly 5 MB of localStorage.
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+// Approximate bytes the dashboard's keys take in localStorage (stored as UTF-16).
+export function localStorageUsage(): number {
+  let chars = 0;
+  for (const key of storedKeys()) {
+    if (!key.startsWith(KEY_PREFIX)) continue;
+    try { chars += key.length + (localStorage.getItem(key)?.length ?? 0); } catch {}
+  }
+  return chars * 2;
+}
+
+// Media ids referenced by any stored year of any profile on this device.
+export function referencedMediaIds(): Set<string> {
+  const ids = new Set<string>();
+  for (const key of storedKeys()) {
+    if (!parseYearKey(key)) continue;
+    try {
+      for (const id of mediaRefsIn(localStorage.getItem(key) || '')) ids.add(id);
+    } catch {}
+  }
+  return ids;
+}
+
+export interface YearCalendar {
+  areas: Area[];
+  areaData: AreaData;
+  incidents: Incident[];
+  classifications: DayClassification[];
+}
+
+// Calendar of a stored year. A year that hasn't been stored yet (a coming one) starts
+// empty with `fallback`'s areas and classifications.
+export function readYearCalendar(
+  year: number,
+  profile: string = DEFAULT_PROFILE,
+  fallback?: Pick<YearCalendar, 'areas' | 'classifications'>,
+): YearCalendar {
+  try {
+    const raw = localStorage.getItem(yearStorageKey(year, profile));
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      const areas = sanitizeAreas(parsed.areas) ?? DEFAULT_AREAS;
+      return {
+        areas,
+        areaData: loadAreaData(parsed, areas, year),
+        incidents: sanitizeIncidents(parsed.incidents, areas[0].id),
+        classifications: sanitizeClassifications(parsed.dayClassifications),
+      };
+    }
+  } catch {}
+  const areas = fallback?.areas ?? DEFAULT_AREAS;
+  return { areas, areaData: loadAreaData(null, areas, year), incidents: [], classifications: fallback?.classifications ?? DEFAULT_DAY_CLASSIFICATIONS };
+}
+
+// Shift pattern stored with a year, for telling which production day it is before any
+// state has loaded.
+export function readYearShifts(year: number, profile: string = DEFAULT_PROFILE): Shift[] {
+  try {
+    const raw = localStorage.getItem(yearStorageKey(year, profile));
+    if (raw) return sanitizeShifts(JSON.parse(raw).shifts) ?? DEFAULT_SHIFTS;
+  } catch {}
+  return DEFAULT_SHIFTS;
+}
+
+// Payload keys that belong to one year's calendar; everything else carries over into the
+// next year.
+export const CALENDAR_KEYS = ['monthlyData', 'areaData', 'incidents', 'lossTimeAccidents'];
+
+// A coming year's calendar can be filled in ahead of time. It's stored as a "planned"
+// payload holding only the calendar, which the year takes over when it starts (see
+// `withPlannedCalendar`).
+export function plannedYearJson(calendar: YearCalendar): string {
+  return JSON.stringify({
+    planned: true,
+    areas: calendar.areas,
+    areaData: calendar.areaData,
+    incidents: calendar.incidents,
+    dayClassifications: calendar.classifications,
+  });
+}
+
+export function isPlannedYear(raw: string | null): boolean {
+  if (!raw) return false;
+  try {
+    return JSON.parse(raw)?.planned === true;
+  } catch {
+    return false;
+  }
+}
+
+// The previous year's payload with its calendar replaced by the planned one.
+export function withPlannedCalendar(carriedRaw: string, plannedRaw: string): string {
+  const parsed = JSON.parse(carriedRaw);
+  const planned = JSON.parse(plannedRaw);
+  for (const key of CALENDAR_KEYS) delete parsed[key];
+  return JSON.stringify({
+    ...parsed,
+    areas: planned.areas,
+    areaData: planned.areaData,
+    incidents: planned.incidents,
+    dayClassifications: planned.dayClassifications,
+  });
+}
+
+// Day statuses of a stored year as the calendar shows them for an area or the plant
+// roll-up (incidents applied).
+export function readYearStatuses(year: number, view: string, profile: string = DEFAULT_PROFILE): MonthlyData[] {
+  const cal = readYearCalendar(year, profile);
+  return viewCalendar(cal.areaData, cal.areas, view, cal.incidents, classificationsById(cal.classifications), year);
+}
+
+// Copies a profile's other stored years from the state server into localStorage, where
+// the archive view and the cross-year streak read them. Returns how many were cached.
+export async function cacheRemoteYears(server: string, profile: string, skipKey: string): Promise<number> {
+  let n = 0;
+  for (const key of await listRemoteKeys(server)) {
+    const k = parseYearKey(key);
+    if (!k || k.profile !== profile || key !== yearStorageKey(k.year, profile) || key === skipKey) continue;
+    const raw = await fetchRemoteState(server, key);
+    if (raw === null) continue;
+    try {
+      localStorage.setItem(key, raw);
+      n += 1;
+    } catch {}
+  }
+  return n;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import { classificationsById, DEFAULT_DAY_CLASSIFICATIONS } from './classifications';
+import { computeSafetyStreak, findLongestStreak, streakManHours, streakStep, type StreakRules } from './streak';
+import type { DayStatus, MonthlyData } from './types';
+
+const classes = classificationsById(DEFAULT_DAY_CLASSIFICATIONS);
+const rules: StreakRules = { countNonWorking: true, classes };
+
+// A year where every day is `fill`, with `statuses` ('YYYY-MM-DD' → status) on top.
+function yearOf(year: number, fill: DayStatus, statuses: Record<string, DayStatus> = {}): MonthlyData[] {
+  return Array.from({ length: 12 }, (_, month) => ({
+    month,
+    year,
+    days: Array.from({ length: new Date(year, month + 1, 0).getDate() }, (_, i) => {
+      const iso = `${year}-${String(month + 1).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`;
+      return { day: i + 1, status: iso in statuses ? statuses[iso] : fill };
+    }),
+  }));
+}
+
+describe('streakStep', () => {
+  it('breaks on unset days and streak-breaking classifications', () => {
+    expect(streakStep(null, rules)).toBe('break');
+    expect(streakStep('accident', rules)).toBe('break');
+    expect(streakStep('near_miss', rules)).toBe('count');
+  });
+
+  it('counts or skips non-working days', () => {
+    expect(streakStep('non_working', rules)).toBe('count');
+    expect(streakStep('non_working', { ...rules, countNonWorking: false })).toBe('skip');
+  });
+
+  it('treats deleted classifications as breaking', () => {
+    expect(streakStep('gone', rules)).toBe('break');
+  });
+});
+
+describe('computeSafetyStreak', () => {
+  it('walks back to the last breaking day', () => {
+    const data = yearOf(2026, 'safe', { '2026-03-01': 'accident' });
+    const streak = computeSafetyStreak(new Date(2026, 2, 10), () => data, rules);
+    expect(streak.days).toBe(9);
+    expect(streak.start).toEqual(new Date(2026, 2, 2));
+    expect(streak.end).toEqual(new Date(2026, 2, 10));
+  });
+
+  it('crosses into the previous year', () => {
+    const years: Record<number, MonthlyData[]> = {
+      2025: yearOf(2025, 'safe', { '2025-12-30': 'accident' }),
+      2026: yearOf(2026, 'safe'),
+    };
+    const streak = computeSafetyStreak(new Date(2026, 0, 3), (y) => years[y] ?? [], rules);
+    expect(streak.days).toBe(4);
+    expect(streak.start).toEqual(new Date(2025, 11, 31));
+  });
+
+  it('returns the same shape when there is no streak', () => {
+    const streak = computeSafetyStreak(new Date(2026, 0, 1), () => yearOf(2026, null), rules);
+    expect(streak).toEqual({ days: 0, start: null, end: null });
+  });
+
+  it('steps over non-working days without counting them', () => {
+    const data = yearOf(2026, 'safe', { '2026-03-08': 'non_working', '2026-03-05': null });
+    const streak = computeSafetyStreak(new Date(2026, 2, 10), () => data, { ...rules, countNonWorking: false });
+    expect(streak.days).toBe(4);
+  });
+});
+
+describe('findLongestStreak', () => {
+  it('finds the longest run in the range', () => {
+    const data = yearOf(2026, 'safe', { '2026-01-05': 'accident', '2026-01-20': 'fire' });
+    const best = findLongestStreak(new Date(2026, 0, 1), new Date(2026, 0, 31), () => data, rules);
+    expect(best.days).toBe(14);
+    expect(best.start).toEqual(new Date(2026, 0, 6));
+    expect(best.end).toEqual(new Date(2026, 0, 19));
+  });
+});
+
+describe('streakManHours', () => {
+  const vars = { manpower: 10, daysPerWeek: 5, hoursPerDay: 8, workingDaysYear: 0, workingDaysSoFar: 0 };
+
+  it('spreads the work week over calendar days when non-working days count', () => {
+    expect(streakManHours(7, vars, true)).toBe(400);
+    expect(streakManHours(3, { ...vars, daysPerWeek: 7 }, true)).toBe(240);
+  });
+
+  it('counts every streak day as worked when non-working days are skipped', () => {
+    expect(streakManHours(5, vars, false)).toBe(400);
+    expect(streakManHours(7, vars, false)).toBe(560);
+  });
+});
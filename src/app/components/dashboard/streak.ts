@@ -0,0 +1,66 @@
+import type { DayStatus, MonthlyData, TargetVars } from './types';
+import { classificationOf, type ClassificationMap } from './classifications';
+
+export interface SafetyStreak { days: number; start: Date | null; end: Date | null }
+
+export type StreakStep = 'count' | 'skip' | 'break';
+
+export interface StreakRules {
+  countNonWorking: boolean;
+  classes: ClassificationMap;
+}
+
+// Days whose classification doesn't break the streak extend it; NOT SET ends it.
+// Non-working days either count too or are stepped over without breaking the run.
+export function streakStep(status: DayStatus, rules: StreakRules): StreakStep {
+  if (status === null) return 'break';
+  if (status === 'non_working') return rules.countNonWorking ? 'count' : 'skip';
+  return classificationOf(status, rules.classes).breaksStreak ? 'break' : 'count';
+}
+
+function statusOn(dt: Date, yearData: (year: number) => MonthlyData[]): DayStatus {
+  return yearData(dt.getFullYear())[dt.getMonth()]?.days?.[dt.getDate() - 1]?.status ?? null;
+}
+
+// Walks back day by day from `end`, crossing into earlier years through `yearData`.
+// Years that were never stored come back empty, which ends the walk.
+export function computeSafetyStreak(end: Date, yearData: (year: number) => MonthlyData[], rules: StreakRules): SafetyStreak {
+  let days = 0;
+  let start: Date | null = null;
+  for (const dt = new Date(end.getFullYear(), end.getMonth(), end.getDate()); ; dt.setDate(dt.getDate() - 1)) {
+    const step = streakStep(statusOn(dt, yearData), rules);
+    if (step === 'break') break;
+    if (step === 'skip') continue;
+    days += 1;
+    start = new Date(dt);
+  }
+  return { days, start, end: days ? new Date(end.getFullYear(), end.getMonth(), end.getDate()) : null };
+}
+
+// Longest run of streak days between `from` and `to` (inclusive).
+export function findLongestStreak(from: Date, to: Date, yearData: (year: number) => MonthlyData[], rules: StreakRules): SafetyStreak {
+  let best: SafetyStreak = { days: 0, start: null, end: null };
+  let runDays = 0;
+  let runStart: Date | null = null;
+  const last = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  for (const dt = new Date(from.getFullYear(), from.getMonth(), from.getDate()); dt <= last; dt.setDate(dt.getDate() + 1)) {
+    const step = streakStep(statusOn(dt, yearData), rules);
+    if (step === 'skip') continue;
+    if (step === 'count') {
+      if (!runDays) runStart = new Date(dt);
+      runDays += 1;
+      if (runDays > best.days) best = { days: runDays, start: runStart, end: new Date(dt) };
+    } else {
+      runDays = 0;
+      runStart = null;
+    }
+  }
+  return best;
+}
+
+// Man-hours worked over a streak. When non-working days count, the run is in calendar
+// days and is spread over the configured work week; otherwise every day in it was worked.
+export function streakManHours(days: number, vars: TargetVars, countNonWorking: boolean) {
+  const workedDays = countNonWorking ? days * (vars.daysPerWeek / 7) : days;
+  return Math.round(vars.manpower * vars.hoursPerDay * workedDays);
+}
@@ -0,0 +1,13 @@
+// A day classification id (see classifications.ts), 'non_working' for weekends / days
+// off that auto SAFE skips, or null while NOT SET.
+export type DayStatus = string | null;
+export interface DailyStatistic { day: number; status: DayStatus }
+export interface MonthlyData { month: number; year: number; days: DailyStatistic[] }
+
+export type TargetVars = {
+  manpower: number;
+  daysPerWeek: number;
+  hoursPerDay: number;
+  workingDaysYear: number;
+  workingDaysSoFar: number;
+};
@@ -0,0 +1,20 @@
+import { useState } from 'react';
+
+export function clamp(n: number, min: number, max: number) { return Math.min(max, Math.max(min, n)); }
+export function uid(prefix='id'){ return `${prefix}-${Math.random().toString(16).slice(2)}-${Date.now()}`; }
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Calls `reset` in the render where `key` changes to a truthy value, e.g. a dialog's
+// `open`, so its draft starts from the props it opened with. Later prop changes leave
+// the edits alone, and the previous draft never shows for a frame.
+export function useResetOn(key: unknown, reset: () => void) {
+  const [seen, setSeen] = useState<unknown>(false);
+  if (key !== seen) {
+    setSeen(key);
+    if (key) reset();
+  }
+}
@@ -0,0 +1,43 @@
+import { encodeCanvas, type ImageUploadSettings } from './images';
+import { sanitizePageSet, type PageSet } from './pages';
+
+// Poster cards can also play a short clip (muted, looping). `poster` is a still frame
+// shown while the video loads and instead of it when the browser can't play it.
+export interface VideoClip {
+  video: string;
+  poster: string | null;
+}
+
+// What a poster card shows.
+export type PosterContent = PageSet | VideoClip;
+
+// Clips are stored on every display and, with a state server, sent to it (50 MB limit).
+export const MAX_VIDEO_BYTES = 40 * 1024 * 1024;
+
+export function isVideoFile(file: File) {
+  return file.type.startsWith('video/');
+}
+
+export function isVideoClip(content: PosterContent | null): content is VideoClip {
+  return !!content && typeof (content as VideoClip).video === 'string';
+}
+
+export function sanitizePosterContent(raw: unknown): PosterContent | null {
+  if (raw && typeof raw === 'object' && typeof (raw as VideoClip).video === 'string' && (raw as VideoClip).video) {
+    const poster = (raw as VideoClip).poster;
+    return { video: (raw as VideoClip).video, poster: typeof poster === 'string' && poster ? poster : null };
+  }
+  return sanitizePageSet(raw);
+}
+
+// Encodes the frame `video` is currently showing as a still image.
+export function captureVideoFrame(video: HTMLVideoElement, settings: ImageUploadSettings): Promise<Blob> {
+  const scale = Math.min(1, settings.maxEdge / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('เบราว์เซอร์นี้จับภาพจากวิดีโอไม่ได้'));
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return encodeCanvas(canvas, settings);
+}
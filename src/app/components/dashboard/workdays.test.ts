@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyTargetAuto,
+  autoWorkingDays,
+  countWorkingDays,
+  isWorkingDay,
+  isWorkingWeekday,
+  sanitizeWorkWeek,
+  workWeekFromDaysPerWeek,
+} from './workdays';
+
+const monFri = workWeekFromDaysPerWeek(5);
+const monSat = workWeekFromDaysPerWeek(6);
+
+describe('workWeekFromDaysPerWeek', () => {
+  it('starts the week on Monday', () => {
+    expect(monFri.days).toEqual([false, true, true, true, true, true, false]);
+    expect(monSat.days).toEqual([false, true, true, true, true, true, true]);
+  });
+});
+
+describe('isWorkingWeekday', () => {
+  it('alternates Saturdays from the anchor', () => {
+    const week = { ...monSat, alternateSaturdays: true, alternateAnchor: '2026-01-03' };
+    expect(isWorkingWeekday(new Date(2026, 0, 3), week)).toBe(true);
+    expect(isWorkingWeekday(new Date(2026, 0, 10), week)).toBe(false);
+    expect(isWorkingWeekday(new Date(2026, 0, 17), week)).toBe(true);
+    expect(isWorkingWeekday(new Date(2025, 11, 27), week)).toBe(false);
+  });
+});
+
+describe('countWorkingDays', () => {
+  it('counts both ends and skips holidays', () => {
+    // Mon 5 Jan to Sun 11 Jan 2026.
+    expect(countWorkingDays(new Date(2026, 0, 5), new Date(2026, 0, 11), monFri, {})).toBe(5);
+    expect(countWorkingDays(new Date(2026, 0, 5), new Date(2026, 0, 11), monFri, { '2026-01-07': 'Holiday' })).toBe(4);
+    expect(isWorkingDay(new Date(2026, 0, 7), monFri, { '2026-01-07': 'Holiday' })).toBe(false);
+  });
+});
+
+describe('autoWorkingDays', () => {
+  it('counts the whole year and the days so far', () => {
+    expect(autoWorkingDays(2026, new Date(2026, 0, 9), monFri, {})).toEqual({ workingDaysYear: 261, workingDaysSoFar: 7 });
+  });
+
+  it('treats past and coming years as complete and not started', () => {
+    expect(autoWorkingDays(2025, new Date(2026, 5, 1), monFri, {}).workingDaysSoFar).toBe(261);
+    expect(autoWorkingDays(2027, new Date(2026, 5, 1), monFri, {}).workingDaysSoFar).toBe(0);
+  });
+});
+
+describe('applyTargetAuto', () => {
+  it('only replaces the values set to follow the calendar', () => {
+    const vars = { manpower: 1, daysPerWeek: 5, hoursPerDay: 8, workingDaysYear: 250, workingDaysSoFar: 10 };
+    const out = applyTargetAuto(vars, { workingDaysYear: false, workingDaysSoFar: true }, { workingDaysYear: 261, workingDaysSoFar: 7 });
+    expect(out.workingDaysYear).toBe(250);
+    expect(out.workingDaysSoFar).toBe(7);
+  });
+});
+
+describe('sanitizeWorkWeek', () => {
+  it('rejects malformed weeks and fills defaults', () => {
+    expect(sanitizeWorkWeek({ days: [true] })).toBeNull();
+    const week = sanitizeWorkWeek({ days: [0, 1, 1, 1, 1, 1, 0], alternateAnchor: 'nope' });
+    expect(week?.days).toEqual(monFri.days);
+    expect(week?.alternateAnchor).toBe('2026-01-03');
+    expect(week?.countNonWorkingInStreak).toBe(true);
+  });
+});
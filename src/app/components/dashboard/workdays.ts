@@ -0,0 +1,87 @@
+import type { TargetVars } from './types';
+import { fromISODate, toISODate } from './dates';
+
+// Which derived TargetVars follow the calendar instead of a typed-in value.
+export type TargetAuto = { workingDaysYear: boolean; workingDaysSoFar: boolean };
+
+export const DEFAULT_TARGET_AUTO: TargetAuto = { workingDaysYear: true, workingDaysSoFar: true };
+
+export interface WorkWeek {
+  days: boolean[]; // working flag per Date#getDay(), Sunday first
+  alternateSaturdays: boolean; // every other Saturday, counted from `alternateAnchor`
+  alternateAnchor: string; // ISO date of a working Saturday
+  countNonWorkingInStreak: boolean;
+}
+
+// A `daysPerWeek`-day week starting on Monday (6 → Mon–Sat, 5 → Mon–Fri).
+export function workWeekFromDaysPerWeek(daysPerWeek: number): WorkWeek {
+  const n = Math.min(7, Math.max(0, Math.round(daysPerWeek)));
+  return {
+    days: Array.from({ length: 7 }, (_, d) => (d + 6) % 7 < n),
+    alternateSaturdays: false,
+    alternateAnchor: '2026-01-03',
+    countNonWorkingInStreak: true,
+  };
+}
+
+export const DEFAULT_WORK_WEEK: WorkWeek = workWeekFromDaysPerWeek(6);
+
+export function sanitizeWorkWeek(raw: unknown): WorkWeek | null {
+  const w = raw as Partial<WorkWeek> | null;
+  if (!w || typeof w !== 'object' || !Array.isArray(w.days) || w.days.length !== 7) return null;
+  return {
+    days: w.days.map(Boolean),
+    alternateSaturdays: !!w.alternateSaturdays,
+    alternateAnchor: typeof w.alternateAnchor === 'string' && fromISODate(w.alternateAnchor) ? w.alternateAnchor : DEFAULT_WORK_WEEK.alternateAnchor,
+    countNonWorkingInStreak: w.countNonWorkingInStreak !== false,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isWorkingWeekday(date: Date, week: WorkWeek) {
+  if (date.getDay() === 6 && week.alternateSaturdays) {
+    const anchor = fromISODate(week.alternateAnchor);
+    if (!anchor) return week.days[6];
+    // Whole days between the dates, immune to DST shifts.
+    const diff = Math.round(
+      (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(anchor.getFullYear(), anchor.getMonth(), anchor.getDate())) / DAY_MS,
+    );
+    return Math.round(diff / 7) % 2 === 0;
+  }
+  return !!week.days[date.getDay()];
+}
+
+export function isWorkingDay(date: Date, week: WorkWeek, holidays: Record<string, string>) {
+  return isWorkingWeekday(date, week) && !holidays[toISODate(date)];
+}
+
+// Working days between `from` and `to`, both inclusive.
+export function countWorkingDays(from: Date, to: Date, week: WorkWeek, holidays: Record<string, string>) {
+  let n = 0;
+  const last = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  for (const dt = new Date(from.getFullYear(), from.getMonth(), from.getDate()); dt <= last; dt.setDate(dt.getDate() + 1)) {
+    if (isWorkingDay(dt, week, holidays)) n += 1;
+  }
+  return n;
+}
+
+export function autoWorkingDays(year: number, today: Date, week: WorkWeek, holidays: Record<string, string>) {
+  const workingDaysYear = countWorkingDays(new Date(year, 0, 1), new Date(year, 11, 31), week, holidays);
+  const workingDaysSoFar = today.getFullYear() > year
+    ? workingDaysYear
+    : today.getFullYear() < year ? 0 : countWorkingDays(new Date(year, 0, 1), today, week, holidays);
+  return { workingDaysYear, workingDaysSoFar };
+}
+
+export function applyTargetAuto(
+  vars: TargetVars,
+  auto: TargetAuto,
+  derived: Pick<TargetVars, 'workingDaysYear' | 'workingDaysSoFar'>,
+): TargetVars {
+  return {
+    ...vars,
+    workingDaysYear: auto.workingDaysYear ? derived.workingDaysYear : vars.workingDaysYear,
+    workingDaysSoFar: auto.workingDaysSoFar ? derived.workingDaysSoFar : vars.workingDaysSoFar,
+  };
+}